@@ -0,0 +1,27 @@
+// Create a tenant (if needed) and issue an API key for it.
+// Usage: S3_BUCKET=<bucket> node create-api-key.cjs <tenant_id> [name] [--rotate-webhook-secret]
+const { createTenant, getTenant, issueApiKey, rotateWebhookSecret } = require('./dist/lib/tenants.js');
+
+const args = process.argv.slice(2);
+const rotate = args.includes('--rotate-webhook-secret');
+const [tenantId, name] = args.filter((a) => !a.startsWith('--'));
+if (!tenantId) {
+  console.error('Usage: node create-api-key.cjs <tenant_id> [name] [--rotate-webhook-secret]');
+  process.exit(1);
+}
+
+(async () => {
+  let tenant = await getTenant(tenantId);
+  if (!tenant) {
+    tenant = await createTenant(tenantId, { name });
+    console.log('Created tenant:', tenantId);
+    console.log('Webhook signing secret (store it now):', tenant.webhook_secret);
+  } else if (rotate || !tenant.webhook_secret) {
+    console.log('Webhook signing secret (store it now):', await rotateWebhookSecret(tenantId));
+  }
+  const apiKey = await issueApiKey(tenantId);
+  console.log('API key (shown once, store it now):', apiKey);
+})().catch((err) => {
+  console.error('Failed:', err.message);
+  process.exit(1);
+});
@@ -3,6 +3,7 @@ module.exports = {
   testEnvironment: 'node',
   roots: ['<rootDir>/src'],
   testMatch: ['**/__tests__/**/*.test.ts'],
+  setupFiles: ['<rootDir>/src/lib/__tests__/setup.ts'],
   transform: {
     '^.+\\.ts$': 'ts-jest',
   },
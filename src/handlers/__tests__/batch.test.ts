@@ -0,0 +1,152 @@
+import * as s3 from '../../lib/__tests__/memory-s3';
+import { redeliver, results, status, submit, webhooks } from '../batch';
+import { getBatch } from '../../lib/batches';
+import { createJob, getJob } from '../../lib/jobs';
+import { getUsage } from '../../lib/usage';
+import { dispatchJob } from '../../lib/worker';
+import { batchWebhookLogKey } from '../../lib/webhook';
+
+jest.mock('../../lib/s3', () => require('../../lib/__tests__/memory-s3'));
+jest.mock('../../lib/worker', () => ({ dispatchJob: jest.fn(async () => undefined) }));
+
+const KEYS = { acme: 'ick_acme', other: 'ick_other' };
+
+const call = (handler: any, event: Record<string, unknown>, key = KEYS.acme) =>
+  handler({ headers: { 'x-api-key': key }, ...event }, {} as any, () => undefined) as Promise<any>;
+const body = (res: any) => JSON.parse(res.body);
+
+beforeAll(async () => {
+  for (const [tenantId, key] of Object.entries(KEYS)) {
+    await s3.putObject(`api-keys/${s3.sha256(key)}.json`, { tenant_id: tenantId });
+    await s3.putObject(`tenants/${tenantId}/tenant.json`, { tenant_id: tenantId, created_at: '2026-01-01T00:00:00.000Z' });
+  }
+});
+
+beforeEach(() => jest.mocked(dispatchJob).mockReset());
+
+test('POST /crawl/batch creates and dispatches one job per valid URL', async () => {
+  const res = await call(submit, {
+    body: JSON.stringify({ batch_id: 'b_ok', urls: ['https://a.example', 'not a url', 'https://b.example', 'https://a.example'] }),
+  });
+
+  expect(res.statusCode).toBe(202);
+  expect(body(res)).toMatchObject({
+    batch_id: 'b_ok',
+    total: 2,
+    jobs: [
+      { job_id: 'b_ok-1', source_url: 'https://a.example' },
+      { job_id: 'b_ok-2', source_url: 'https://b.example' },
+    ],
+    rejected: [{ url: 'not a url' }],
+  });
+  expect(dispatchJob).toHaveBeenCalledTimes(2);
+  expect(await getJob('b_ok-2', 'acme')).toMatchObject({ status: 'queued', request: { batch_id: 'b_ok', tenant_id: 'acme' } });
+});
+
+test('POST /crawl/batch accepts a CSV body with options in the query string', async () => {
+  const res = await call(submit, {
+    headers: { 'x-api-key': KEYS.acme, 'content-type': 'text/csv' },
+    body: 'url\nhttps://a.example\nhttps://b.example\n',
+    queryStringParameters: { batch_id: 'b_csv', max_pages: '2' },
+  });
+
+  expect(res.statusCode).toBe(202);
+  expect(body(res).total).toBe(2);
+  expect((await getJob('b_csv-1', 'acme'))?.request.max_pages).toBe(2);
+});
+
+test('POST /crawl/batch refuses a taken batch_id and batches without valid URLs', async () => {
+  await call(submit, { body: JSON.stringify({ batch_id: 'b_twice', urls: ['https://a.example'] }) });
+  const again = await call(submit, { body: JSON.stringify({ batch_id: 'b_twice', urls: ['https://a.example'] }) });
+  expect(again.statusCode).toBe(400);
+  expect(body(again)).toMatchObject({ code: 'INVALID_REQUEST', field: 'batch_id' });
+
+  const none = await call(submit, { body: JSON.stringify({ urls: ['nope'] }) });
+  expect(none.statusCode).toBe(400);
+  expect(body(none)).toMatchObject({ field: 'urls', rejected: [{ url: 'nope' }] });
+});
+
+test('jobs that cannot be dispatched are failed on the batch, which still finishes', async () => {
+  const before = (await getUsage('acme')).crawls;
+  jest.mocked(dispatchJob).mockImplementation(async (jobId) => {
+    throw new Error(`invoke failed for ${jobId}`);
+  });
+  const res = await call(submit, { body: JSON.stringify({ batch_id: 'b_down', urls: ['https://a.example', 'https://b.example'] }) });
+
+  expect(res.statusCode).toBe(202);
+  expect(body(res).jobs).toEqual([
+    { job_id: 'b_down-1', source_url: 'https://a.example', status: 'failed', error: 'could not start the crawl worker' },
+    { job_id: 'b_down-2', source_url: 'https://b.example', status: 'failed', error: 'could not start the crawl worker' },
+  ]);
+  expect(await getJob('b_down-1', 'acme')).toMatchObject({ status: 'failed', error_code: 'INTERNAL_ERROR' });
+  expect(await getBatch('b_down', 'acme')).toMatchObject({
+    status: 'completed',
+    finished: { 'b_down-1': 'failed', 'b_down-2': 'failed' },
+  });
+  // neither job ran, so neither counts against the quota
+  expect((await getUsage('acme')).crawls).toBe(before);
+});
+
+test('POST /crawl/batch refuses a batch whose job ids are taken, without reserving anything', async () => {
+  await createJob('b_clash-2', {
+    url: 'https://a.example',
+    force_refresh: false,
+    max_pages: 1,
+    max_depth: 1,
+    max_images: 5,
+    max_ai_images: 5,
+    tenant_id: 'acme',
+  });
+  const before = (await getUsage('acme')).crawls;
+
+  const res = await call(submit, { body: JSON.stringify({ batch_id: 'b_clash', urls: ['https://a.example', 'https://b.example'] }) });
+  expect(res.statusCode).toBe(400);
+  expect(body(res)).toMatchObject({ code: 'INVALID_REQUEST', field: 'batch_id' });
+  expect((await getJob('b_clash-2', 'acme'))?.source_url).toBe('https://a.example');
+  expect((await getUsage('acme')).crawls).toBe(before);
+});
+
+test("batch ids are per tenant, so another tenant's batch never touches acme's jobs", async () => {
+  const res = await call(submit, { body: JSON.stringify({ batch_id: 'b_ok', urls: ['https://other.example'] }) }, KEYS.other);
+  expect(res.statusCode).toBe(202);
+  expect(await getJob('b_ok-1', 'other')).toMatchObject({ source_url: 'https://other.example' });
+  expect(await getJob('b_ok-1', 'acme')).toMatchObject({ source_url: 'https://a.example' });
+});
+
+test('GET /crawl/batch/{batch_id} and /results are only served to the owner', async () => {
+  await call(submit, { body: JSON.stringify({ batch_id: 'b_view', urls: ['https://a.example'] }) });
+  const pathParameters = { batch_id: 'b_view' };
+
+  const view = await call(status, { pathParameters });
+  expect(view.statusCode).toBe(200);
+  expect(body(view)).toMatchObject({ batch_id: 'b_view', total: 1, pending: 1 });
+  expect(body(view)).not.toHaveProperty('tenant_id');
+
+  const combined = await call(results, { pathParameters });
+  expect(body(combined).results).toEqual([{ job_id: 'b_view-1', source_url: 'https://a.example', status: 'queued' }]);
+
+  expect((await call(status, { pathParameters }, KEYS.other)).statusCode).toBe(404);
+  expect((await call(results, { pathParameters }, KEYS.other)).statusCode).toBe(404);
+});
+
+test('GET /crawl/batch/{batch_id}/webhooks lists the logged deliveries', async () => {
+  await call(submit, { body: JSON.stringify({ batch_id: 'b_hooks', urls: ['https://a.example'], webhook_url: 'https://hooks.example' }) });
+  await s3.putObject(batchWebhookLogKey('b_hooks', 'acme'), [
+    {
+      delivery_id: 'whd_1',
+      event: 'batch.completed',
+      url: 'https://hooks.example',
+      status: 'failed',
+      attempts: [{ at: '2026-01-01T00:00:00.000Z', status_code: 500, duration_ms: 12 }],
+      created_at: '2026-01-01T00:00:00.000Z',
+    },
+  ]);
+  const pathParameters = { batch_id: 'b_hooks' };
+
+  const res = await call(webhooks, { pathParameters });
+  expect(res.statusCode).toBe(200);
+  expect(body(res)).toMatchObject({ batch_id: 'b_hooks', webhook_url: 'https://hooks.example', deliveries: [{ delivery_id: 'whd_1' }] });
+
+  expect((await call(webhooks, { pathParameters }, KEYS.other)).statusCode).toBe(404);
+  expect((await call(redeliver, { pathParameters: { ...pathParameters, delivery_id: 'whd_missing' } })).statusCode).toBe(404);
+});
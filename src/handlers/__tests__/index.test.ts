@@ -0,0 +1,88 @@
+import * as s3 from '../../lib/__tests__/memory-s3';
+import { handler } from '../index';
+import { handler as status } from '../status';
+import { getJob } from '../../lib/jobs';
+import { getUsage } from '../../lib/usage';
+import { dispatchJob } from '../../lib/worker';
+
+jest.mock('../../lib/s3', () => require('../../lib/__tests__/memory-s3'));
+jest.mock('../../lib/worker', () => ({
+  dispatchJob: jest.fn(async () => undefined),
+}));
+
+const API_KEY = 'ick_test';
+const headers = { 'x-api-key': API_KEY };
+
+const post = (body: unknown) =>
+  handler({ headers, body: JSON.stringify(body) } as any, {} as any, () => undefined) as Promise<any>;
+const get = (jobId: string, key = API_KEY) =>
+  status({ headers: { 'x-api-key': key }, pathParameters: { job_id: jobId } } as any, {} as any, () => undefined) as Promise<any>;
+
+beforeAll(async () => {
+  for (const [tenantId, key] of [['acme', API_KEY], ['other', 'ick_other']]) {
+    await s3.putObject(`api-keys/${s3.sha256(key)}.json`, { tenant_id: tenantId });
+    await s3.putObject(`tenants/${tenantId}/tenant.json`, { tenant_id: tenantId, created_at: '2026-01-01T00:00:00.000Z' });
+  }
+});
+
+test('POST /crawl queues a job, dispatches it and GET /crawl/{job_id} shows it', async () => {
+  const res = await post({ url: 'https://acme.example', job_id: 'job_api' });
+  expect(res.statusCode).toBe(202);
+  expect(JSON.parse(res.body)).toMatchObject({ job_id: 'job_api', status: 'queued', status_url: '/crawl/job_api' });
+  expect(dispatchJob).toHaveBeenCalledWith('job_api', 'acme');
+
+  const view = await get('job_api');
+  expect(view.statusCode).toBe(200);
+  expect(JSON.parse(view.body)).toMatchObject({ job_id: 'job_api', status: 'queued', source_url: 'https://acme.example' });
+  expect(JSON.parse(view.body)).not.toHaveProperty('request');
+});
+
+test('POST /crawl rejects a taken job_id and bad input with a 400', async () => {
+  await post({ url: 'https://acme.example', job_id: 'job_twice' });
+  const again = await post({ url: 'https://acme.example', job_id: 'job_twice' });
+  expect(again.statusCode).toBe(400);
+  expect(JSON.parse(again.body)).toMatchObject({ code: 'INVALID_REQUEST', field: 'job_id' });
+
+  expect((await post({ url: 'ftp://acme.example' })).statusCode).toBe(400);
+  expect((await post({ url: 'https://acme.example', job_id: 'no spaces' })).statusCode).toBe(400);
+});
+
+test('requests without a valid API key are refused', async () => {
+  const res = (await handler({ body: JSON.stringify({ url: 'https://acme.example' }) } as any, {} as any, () => undefined)) as any;
+  expect(res.statusCode).toBe(401);
+  expect((await get('job_api', 'ick_wrong')).statusCode).toBe(401);
+});
+
+test("GET /crawl/{job_id} answers another tenant's job exactly like an unknown one", async () => {
+  await post({ url: 'https://acme.example', job_id: 'job_private' });
+  const foreign = await get('job_private', 'ick_other');
+  const unknown = await get('job_unknown', 'ick_other');
+
+  expect(foreign.statusCode).toBe(404);
+  expect(unknown.statusCode).toBe(404);
+  expect(JSON.parse(foreign.body)).toEqual({ ...JSON.parse(unknown.body), job_id: 'job_private' });
+});
+
+test('tenants have their own job ids', async () => {
+  const res = (await handler(
+    { headers: { 'x-api-key': 'ick_other' }, body: JSON.stringify({ url: 'https://other.example', job_id: 'job_api' }) } as any,
+    {} as any,
+    () => undefined
+  )) as any;
+  expect(res.statusCode).toBe(202);
+  expect((await getJob('job_api', 'acme'))?.source_url).toBe('https://acme.example');
+  expect((await getJob('job_api', 'other'))?.source_url).toBe('https://other.example');
+});
+
+test('a crawl that cannot be created or started is given back', async () => {
+  const before = (await getUsage('acme')).crawls;
+
+  await post({ url: 'https://acme.example', job_id: 'job_twice' });
+  expect((await getUsage('acme')).crawls).toBe(before);
+
+  jest.mocked(dispatchJob).mockRejectedValueOnce(new Error('invoke failed'));
+  const res = await post({ url: 'https://acme.example', job_id: 'job_down' });
+  expect(res.statusCode).toBe(500);
+  expect(await getJob('job_down', 'acme')).toMatchObject({ status: 'failed', error_code: 'INTERNAL_ERROR' });
+  expect((await getUsage('acme')).crawls).toBe(before);
+});
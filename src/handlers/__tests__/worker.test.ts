@@ -0,0 +1,19 @@
+import { handler } from '../worker';
+import { runJob } from '../../lib/worker';
+
+jest.mock('../../lib/worker', () => ({
+  ...jest.requireActual('../../lib/worker'),
+  runJob: jest.fn(async () => undefined),
+}));
+
+beforeEach(() => (runJob as jest.Mock).mockClear());
+
+test('runs the job of a crawl.job event', async () => {
+  await handler({ type: 'crawl.job', job_id: 'job_1', tenant_id: 'acme' });
+  expect(runJob).toHaveBeenCalledWith('job_1', 'acme');
+});
+
+test('ignores anything else', async () => {
+  await handler({ headers: {}, body: '{}' });
+  expect(runJob).not.toHaveBeenCalled();
+});
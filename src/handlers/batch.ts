@@ -0,0 +1,230 @@
+import { APIGatewayProxyHandlerV2 } from 'aws-lambda';
+
+import { createJob, getJob, isValidJobId, updateJob } from '../lib/jobs';
+import { dispatchJob } from '../lib/worker';
+import { parseCrawlOptions, parseCrawlUrl, parseWebhookUrl } from '../lib/crawl-request';
+import {
+  batchResults,
+  batchView,
+  createBatch,
+  finishBatchJob,
+  getBatch,
+  MAX_BATCH_URLS,
+  newBatchId,
+  parseUrlCsv,
+} from '../lib/batches';
+import { mapLimit } from '../lib/concurrency';
+import { invalidRequest, toCrawlError } from '../lib/errors';
+import { batchWebhookLogKey, getDeliveries, redeliverWebhook } from '../lib/webhook';
+import { authenticate, Tenant } from '../lib/tenants';
+import { checkRateLimit, releaseCrawls, reserveCrawls } from '../lib/usage';
+import { errorResponse, json, withTenant } from '../lib/http';
+
+/** Jobs created / dispatched at once while fanning out */
+const DISPATCH_CONCURRENCY = 10;
+
+/** Query-string options arrive as strings – `10` / `true` / `{…}` are JSON */
+function queryOptions(params: Record<string, string | undefined> = {}) {
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined) continue;
+    try {
+      out[key] = JSON.parse(value);
+    } catch {
+      out[key] = value;
+    }
+  }
+  return out;
+}
+
+/**
+ * Body → URL list + shared options. Accepts
+ * - JSON `{ "urls": [...], ...options }` or `{ "csv": "...", ...options }`
+ * - a raw CSV body (Content-Type text/csv), options in the query string
+ */
+function parseBatchBody(event: any): { urls: string[]; body: any } {
+  if (!event.body) throw invalidRequest('body missing');
+  const raw = event.isBase64Encoded ? Buffer.from(event.body, 'base64').toString('utf-8') : event.body;
+  const contentType: string = event.headers?.['content-type'] ?? '';
+
+  if (/^text\/(csv|plain)/i.test(contentType)) {
+    return { urls: parseUrlCsv(raw), body: queryOptions(event.queryStringParameters) };
+  }
+
+  let body: any;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    throw invalidRequest('body must be valid JSON');
+  }
+  if (Array.isArray(body?.urls)) return { urls: body.urls, body };
+  if (typeof body?.csv === 'string') return { urls: parseUrlCsv(body.csv), body };
+  throw invalidRequest('urls (array) or csv (string) missing', 'urls');
+}
+
+/**
+ * A batch job whose record could not be written or whose worker could not
+ * be started: fail it, so the batch still finishes (and its webhook fires).
+ * Only a record this request `created` is touched.
+ */
+async function abandonJob(tenant: Tenant, batchId: string, jobId: string, error: string, created: boolean) {
+  if (created) {
+    await updateJob(
+      jobId,
+      { status: 'failed', completed_at: new Date().toISOString(), error, error_code: 'INTERNAL_ERROR' },
+      tenant.tenant_id
+    ).catch((err) => console.error('Batch: could not mark job failed', jobId, err));
+  }
+  await finishBatchJob(batchId, jobId, 'failed', tenant.tenant_id);
+}
+
+/**
+ * POST /crawl/batch – one job per URL with shared options. Invalid URLs are
+ * reported and skipped; the batch webhook fires once, after the last job.
+ * Jobs that cannot be started are failed on the batch, listed as such and
+ * give their crawls back.
+ */
+export const submit: APIGatewayProxyHandlerV2 = async (event: any) => {
+  try {
+    const tenant = await authenticate(event);
+    await checkRateLimit(tenant);
+    const { urls, body } = parseBatchBody(event);
+
+    // per-job webhooks are not sent for batch jobs – `webhook_url` is the batch's
+    const { webhook_url, urls: _urls, csv: _csv, batch_id, ...shared } = body;
+    const options = parseCrawlOptions(shared);
+    const batchWebhook = parseWebhookUrl(webhook_url);
+
+    const accepted: string[] = [];
+    const rejected: { url: unknown; error: string }[] = [];
+    for (const url of urls) {
+      try {
+        const valid = parseCrawlUrl(url);
+        if (!accepted.includes(valid)) accepted.push(valid);
+      } catch (err: any) {
+        rejected.push({ url, error: err.message });
+      }
+    }
+    if (!accepted.length) return json(400, { code: 'INVALID_REQUEST', error: 'no valid urls', field: 'urls', rejected });
+    if (accepted.length > MAX_BATCH_URLS) {
+      throw invalidRequest(`at most ${MAX_BATCH_URLS} urls per batch (got ${accepted.length})`, 'urls');
+    }
+
+    const batchId: string = batch_id || newBatchId();
+    if (typeof batchId !== 'string' || !isValidJobId(batchId)) {
+      throw invalidRequest('batch_id may only contain letters, digits, _ and -', 'batch_id');
+    }
+
+    if (await getBatch(batchId, tenant.tenant_id)) {
+      throw invalidRequest(`batch ${batchId} already exists`, 'batch_id');
+    }
+
+    // job ids are derived from the batch id – none of them may exist yet
+    const jobIds = accepted.map((_, i) => `${batchId}-${i + 1}`);
+    const taken = await mapLimit(jobIds, DISPATCH_CONCURRENCY, async (jobId) =>
+      (await getJob(jobId, tenant.tenant_id)) ? jobId : undefined
+    );
+    const clash = taken.find((jobId) => jobId);
+    if (clash) throw invalidRequest(`batch ${batchId} would reuse the id of job ${clash}`, 'batch_id');
+
+    // every URL is a crawl; all of them fit or none are started
+    await reserveCrawls(tenant, jobIds.length);
+    const batch = await createBatch(batchId, jobIds, batchWebhook, tenant.tenant_id).catch(async (err) => {
+      await releaseCrawls(tenant.tenant_id, jobIds.length);
+      throw err;
+    });
+
+    // records first, so a fast job never finds its siblings missing
+    const created = new Set<string>();
+    const notStarted = new Map<string, string>();
+    await mapLimit(accepted, DISPATCH_CONCURRENCY, async (url, i) => {
+      try {
+        await createJob(jobIds[i], { url, ...options, batch_id: batchId, tenant_id: tenant.tenant_id });
+        created.add(jobIds[i]);
+      } catch (err) {
+        console.error('Batch: could not create job', jobIds[i], err);
+        notStarted.set(jobIds[i], 'could not create the job');
+      }
+    });
+    await mapLimit([...created], DISPATCH_CONCURRENCY, async (jobId) => {
+      try {
+        await dispatchJob(jobId, tenant.tenant_id);
+      } catch (err) {
+        console.error('Batch: could not dispatch job', jobId, err);
+        notStarted.set(jobId, 'could not start the crawl worker');
+      }
+    });
+    for (const [jobId, error] of notStarted) await abandonJob(tenant, batchId, jobId, error, created.has(jobId));
+    await releaseCrawls(tenant.tenant_id, notStarted.size);
+
+    const host = event.requestContext?.domainName;
+    const base = host ? `https://${host}` : '';
+    return json(202, {
+      batch_id: batchId,
+      status: batch.status,
+      created_at: batch.created_at,
+      total: jobIds.length,
+      jobs: accepted.map((url, i) => ({
+        job_id: jobIds[i],
+        source_url: url,
+        ...(notStarted.has(jobIds[i]) ? { status: 'failed', error: notStarted.get(jobIds[i]) } : {}),
+      })),
+      ...(rejected.length ? { rejected } : {}),
+      status_url: `${base}/crawl/batch/${batchId}`,
+      results_url: `${base}/crawl/batch/${batchId}/results`,
+    });
+  } catch (err: any) {
+    const error = toCrawlError(err);
+    console.error('Batch error:', error.code, err);
+    return errorResponse(error);
+  }
+};
+
+/** GET /crawl/batch/{batch_id} – progress counts. */
+export const status = withTenant(async (event, tenant) => {
+  const batchId = event.pathParameters?.batch_id ?? '';
+  if (!isValidJobId(batchId)) return json(400, { error: 'invalid batch_id' });
+
+  const batch = await getBatch(batchId, tenant.tenant_id);
+  if (!batch) return json(404, { batch_id: batchId, error: 'batch not found' });
+
+  return json(200, batchView(batch));
+});
+
+/** GET /crawl/batch/{batch_id}/results – every job's status and images. */
+export const results = withTenant(async (event, tenant) => {
+  const batchId = event.pathParameters?.batch_id ?? '';
+  if (!isValidJobId(batchId)) return json(400, { error: 'invalid batch_id' });
+
+  const batch = await getBatch(batchId, tenant.tenant_id);
+  if (!batch) return json(404, { batch_id: batchId, error: 'batch not found' });
+
+  return json(200, { ...batchView(batch), results: await batchResults(batch) });
+});
+
+/** GET /crawl/batch/{batch_id}/webhooks – deliveries of the batch webhook, oldest first. */
+export const webhooks = withTenant(async (event, tenant) => {
+  const batchId = event.pathParameters?.batch_id ?? '';
+  if (!isValidJobId(batchId)) return json(400, { error: 'invalid batch_id' });
+
+  const batch = await getBatch(batchId, tenant.tenant_id);
+  if (!batch) return json(404, { batch_id: batchId, error: 'batch not found' });
+
+  const deliveries = await getDeliveries(batchWebhookLogKey(batchId, tenant.tenant_id));
+  return json(200, { batch_id: batchId, webhook_url: batch.webhook_url, deliveries });
+});
+
+/** POST /crawl/batch/{batch_id}/webhooks/{delivery_id}/redeliver – send a logged delivery again. */
+export const redeliver = withTenant(async (event, tenant) => {
+  const batchId = event.pathParameters?.batch_id ?? '';
+  const deliveryId = event.pathParameters?.delivery_id ?? '';
+  if (!isValidJobId(batchId)) return json(400, { error: 'invalid batch_id' });
+
+  const batch = await getBatch(batchId, tenant.tenant_id);
+  if (!batch) return json(404, { batch_id: batchId, error: 'batch not found' });
+
+  const delivery = await redeliverWebhook(batchWebhookLogKey(batchId, tenant.tenant_id), deliveryId, tenant.tenant_id);
+  if (!delivery) return json(404, { batch_id: batchId, delivery_id: deliveryId, error: 'delivery not found' });
+
+  return json(200, delivery);
+});
@@ -0,0 +1,44 @@
+import { getJob, isValidJobId } from '../lib/jobs';
+import { isJobFinished, progressSse, unseenProgress } from '../lib/progress';
+import { json, withTenant } from '../lib/http';
+
+/** How long one SSE request waits for news (API Gateway allows 29 s) */
+const POLL_WINDOW_MS = 20_000;
+const POLL_INTERVAL_MS = 1_000;
+
+/**
+ * GET /crawl/{job_id}/progress – the job's progress events. JSON by default;
+ * with `Accept: text/event-stream` a long-polled SSE stream that resumes
+ * from Last-Event-ID (or `?after=N`).
+ */
+export const handler = withTenant(async (event, tenant) => {
+  const jobId = event.pathParameters?.job_id ?? '';
+  if (!isValidJobId(jobId)) return json(400, { error: 'invalid job_id' });
+
+  let job = await getJob(jobId, tenant.tenant_id);
+  if (!job) return json(404, { job_id: jobId, error: 'job not found' });
+
+  const accept = event.headers?.accept ?? '';
+  if (!accept.includes('text/event-stream')) {
+    return json(200, {
+      job_id: jobId,
+      status: job.status,
+      step: job.step,
+      step_name: job.step_name,
+      progress: job.progress ?? [],
+    });
+  }
+
+  const seen = Number(event.headers?.['last-event-id'] ?? event.queryStringParameters?.after ?? 0) || 0;
+  const deadline = Date.now() + POLL_WINDOW_MS;
+  while (!isJobFinished(job) && !unseenProgress(job, seen) && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    job = (await getJob(jobId, tenant.tenant_id)) ?? job;
+  }
+
+  return {
+    statusCode: 200,
+    headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' },
+    body: progressSse(job, seen),
+  };
+});
@@ -0,0 +1,14 @@
+import { getJob, isValidJobId, jobView } from '../lib/jobs';
+import { json, withTenant } from '../lib/http';
+
+/** GET /crawl/{job_id} – current status and, once completed, the images. */
+export const handler = withTenant(async (event, tenant) => {
+  const jobId = event.pathParameters?.job_id ?? '';
+  if (!isValidJobId(jobId)) return json(400, { error: 'invalid job_id' });
+
+  // another tenant's job id looks exactly like an unknown one
+  const job = await getJob(jobId, tenant.tenant_id);
+  if (!job) return json(404, { job_id: jobId, error: 'job not found' });
+
+  return json(200, jobView(job));
+});
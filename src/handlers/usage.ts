@@ -0,0 +1,22 @@
+import { tenantLimits } from '../lib/tenants';
+import { getUsage, isValidMonth, monthOf, remainingQuota } from '../lib/usage';
+import { json, withTenant } from '../lib/http';
+
+/**
+ * GET /usage – the caller's usage, limits and what is left for the current
+ * month, or for `?month=YYYY-MM`.
+ */
+export const handler = withTenant(async (event, tenant) => {
+  const month = event.queryStringParameters?.month ?? monthOf();
+  if (!isValidMonth(month)) return json(400, { code: 'INVALID_REQUEST', error: 'month must be YYYY-MM', field: 'month' });
+
+  const usage = await getUsage(tenant.tenant_id, month);
+  return json(200, {
+    tenant_id: tenant.tenant_id,
+    month,
+    usage: { crawls: usage.crawls, pages: usage.pages, ai_images: usage.ai_images },
+    limits: tenantLimits(tenant),
+    remaining: remainingQuota(tenant, usage),
+    updated_at: usage.updated_at,
+  });
+});
@@ -0,0 +1,34 @@
+import { getJob, isValidJobId } from '../lib/jobs';
+import { getDeliveries, jobWebhookLogKey, redeliverWebhook } from '../lib/webhook';
+import { json, withTenant } from '../lib/http';
+
+/** GET /crawl/{job_id}/webhooks – every delivery of the job, oldest first. */
+export const list = withTenant(async (event, tenant) => {
+  const jobId = event.pathParameters?.job_id ?? '';
+  if (!isValidJobId(jobId)) return json(400, { error: 'invalid job_id' });
+
+  const job = await getJob(jobId, tenant.tenant_id);
+  if (!job) return json(404, { job_id: jobId, error: 'job not found' });
+
+  const deliveries = await getDeliveries(jobWebhookLogKey(jobId, tenant.tenant_id));
+  return json(200, { job_id: jobId, webhook_url: job.request.webhook_url, deliveries });
+});
+
+/**
+ * POST /crawl/{job_id}/webhooks/{delivery_id}/redeliver – send a logged
+ * delivery again (same payload, new signature). 200 with the outcome,
+ * even when the receiver failed; 404 for unknown ids.
+ */
+export const redeliver = withTenant(async (event, tenant) => {
+  const jobId = event.pathParameters?.job_id ?? '';
+  const deliveryId = event.pathParameters?.delivery_id ?? '';
+  if (!isValidJobId(jobId)) return json(400, { error: 'invalid job_id' });
+
+  const job = await getJob(jobId, tenant.tenant_id);
+  if (!job) return json(404, { job_id: jobId, error: 'job not found' });
+
+  const delivery = await redeliverWebhook(jobWebhookLogKey(jobId, tenant.tenant_id), deliveryId, tenant.tenant_id);
+  if (!delivery) return json(404, { job_id: jobId, delivery_id: deliveryId, error: 'delivery not found' });
+
+  return json(200, delivery);
+});
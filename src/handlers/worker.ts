@@ -0,0 +1,14 @@
+import { isWorkerEvent, runJob } from '../lib/worker';
+
+/**
+ * The crawl worker – invoked asynchronously by dispatchJob (POST /crawl,
+ * POST /crawl/batch). Runs in its own function so long crawls never take
+ * the API's concurrency.
+ */
+export const handler = async (event: unknown): Promise<void> => {
+  if (!isWorkerEvent(event)) {
+    console.error('Worker: not a crawl.job event', JSON.stringify(event)?.slice(0, 200));
+    return;
+  }
+  await runJob(event.job_id, event.tenant_id);
+};
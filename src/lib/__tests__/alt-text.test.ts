@@ -0,0 +1,42 @@
+import { clipText, pageContext, parseAltTextOptions } from '../alt-text';
+import { analyseImages } from '../openai';
+
+test('clipText cuts at a word boundary', () => {
+  expect(clipText('Analytics dashboard showing weekly revenue', 30)).toBe('Analytics dashboard showing');
+  expect(clipText('  short  text ', 30)).toBe('short text');
+});
+
+test('pageContext takes the brand from og:site_name or the title suffix', () => {
+  expect(pageContext({ title: 'Social walls – Flockler', description: 'Embed feeds' })).toEqual({
+    brand: 'Flockler',
+    title: 'Social walls – Flockler',
+    description: 'Embed feeds',
+  });
+  expect(pageContext({ title: 'Features', ogSiteName: 'Acme' }).brand).toBe('Acme');
+  expect(pageContext({ title: 'Features' }, 'Acme').brand).toBe('Acme');
+});
+
+test('parseAltTextOptions validates each option', () => {
+  expect(parseAltTextOptions({ languages: ['en', 'pt-BR'], max_length: 100, caption: true })).toEqual({
+    languages: ['en', 'pt-BR'],
+    max_length: 100,
+    caption: true,
+  });
+  expect(() => parseAltTextOptions({ languages: ['English'] })).toThrow(/language codes/);
+  expect(() => parseAltTextOptions({ max_length: 5 })).toThrow(/between 20 and 500/);
+  expect(() => parseAltTextOptions({ tone: 'funny' })).toThrow(/tone/);
+  expect(() => parseAltTextOptions({ length: 100 })).toThrow(/unknown option length/);
+});
+
+test('heuristic provider honours length, languages and extra fields', async () => {
+  const [result] = await analyseImages(
+    [{ url: 'https://example.com/a.png', alt: 'A very long description of the reporting dashboard in dark mode' }],
+    { provider: 'heuristic' },
+    { languages: ['en', 'fi'], max_length: 30, title: true }
+  );
+
+  expect(result.alt.length).toBeLessThanOrEqual(30);
+  expect(result.title).toBe(result.alt);
+  expect(result.caption).toBeUndefined();
+  expect(Object.keys(result.localized!)).toEqual(['en', 'fi']);
+});
@@ -0,0 +1,30 @@
+import { batchView, parseUrlCsv } from '../batches';
+
+test('parseUrlCsv takes the first column and skips header, blanks and comments', () => {
+  const csv = [
+    'url,company',
+    'https://a.example,Acme',
+    '',
+    '# paused',
+    '"https://b.example/?x=1,2",Beta',
+    '  https://c.example  ',
+  ].join('\r\n');
+
+  expect(parseUrlCsv(csv)).toEqual(['https://a.example', 'https://b.example/?x=1,2', 'https://c.example']);
+});
+
+test('batchView counts finished jobs and hides internals', () => {
+  const view = batchView({
+    batch_id: 'b1',
+    status: 'running',
+    webhook_url: 'https://hooks.example',
+    job_ids: ['b1-1', 'b1-2', 'b1-3'],
+    finished: { 'b1-1': 'completed', 'b1-3': 'failed' },
+    created_at: '2026-01-01T00:00:00.000Z',
+    updated_at: '2026-01-01T00:01:00.000Z',
+  });
+
+  expect(view).toMatchObject({ total: 3, completed: 1, failed: 1, pending: 1 });
+  expect(view).not.toHaveProperty('finished');
+  expect(view).not.toHaveProperty('webhook_url');
+});
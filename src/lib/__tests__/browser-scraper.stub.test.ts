@@ -0,0 +1,130 @@
+import { EventEmitter } from 'events';
+import { browserScrape, closeBrowser } from '../browser-scraper';
+
+/* A scripted stand-in for playwright-core, so the scraper runs without Chromium */
+
+const launch = jest.fn();
+jest.mock('playwright-core', () => ({ chromium: { launch: (...args: unknown[]) => launch(...args) } }));
+
+process.env.CHROMIUM_PATH = '/opt/chromium';
+// no fixture server here – let the route check block the metadata address
+delete process.env.ALLOW_PRIVATE_URLS;
+
+const SITE = 'http://93.184.216.34';
+
+/** Subresources the page requests on load: url, resource type, content type, status */
+const ON_LOAD: [string, string, string, number][] = [
+  [`${SITE}/hero.png`, 'image', 'image/png', 200],
+  [`${SITE}/bg`, 'fetch', 'image/webp', 200],
+  [`${SITE}/gone.png`, 'image', 'image/png', 404],
+  [`${SITE}/app.js`, 'script', 'text/javascript', 200],
+  ['http://169.254.169.254/latest/meta-data', 'image', 'image/png', 200],
+  ['file:///etc/passwd', 'image', 'image/png', 200],
+];
+/** Requested only once the page has been scrolled */
+const ON_SCROLL: [string, string, string, number][] = [[`${SITE}/below-fold.png`, 'image', 'image/png', 200]];
+
+const aborted: string[] = [];
+
+function fakePage(routeHandler: () => (route: any) => Promise<unknown>) {
+  const page = new EventEmitter() as any;
+  const request = async ([url, type, contentType, status]: [string, string, string, number]) => {
+    let allowed = false;
+    await routeHandler()({
+      request: () => ({ url: () => url }),
+      continue: async () => void (allowed = true),
+      abort: async () => void aborted.push(url),
+    });
+    if (!allowed) return;
+    page.emit('response', {
+      url: () => url,
+      status: () => status,
+      headers: () => ({ 'content-type': contentType }),
+      request: () => ({ resourceType: () => type }),
+    });
+  };
+
+  page.goto = async () => {
+    for (const r of ON_LOAD) await request(r);
+    return { status: () => 200 };
+  };
+  page.waitForLoadState = async () => undefined;
+  page.evaluate = async (_fn: unknown, arg?: { steps?: number }) => {
+    if (arg?.steps) {
+      for (const r of ON_SCROLL) await request(r);
+      return undefined;
+    }
+    return { title: 'Acme', language: 'en' };
+  };
+  page.url = () => `${SITE}/`;
+  page.content = async () => '<html><body>Acme</body></html>';
+  page.$$eval = async () => [`${SITE}/features#top`, `${SITE}/features`, 'mailto:hi@acme.test', `${SITE}/pricing`];
+  return page;
+}
+
+class FakeBrowser extends EventEmitter {
+  contexts = 0;
+  options: Record<string, any> = {};
+  async newContext(options: Record<string, any>) {
+    this.contexts++;
+    this.options = options;
+    let handler: (route: any) => Promise<unknown>;
+    return {
+      route: async (_pattern: string, fn: typeof handler) => void (handler = fn),
+      newPage: async () => fakePage(() => handler),
+      close: async () => undefined,
+    };
+  }
+  async close() {
+    this.emit('disconnected');
+  }
+}
+
+const scrape = () => browserScrape(`${SITE}/`, { onlyMainContent: false, formats: ['rawHtml', 'metadata', 'links'] });
+
+beforeEach(() => {
+  aborted.length = 0;
+  launch.mockReset().mockImplementation(async () => new FakeBrowser());
+});
+
+afterEach(() => closeBrowser());
+
+test('records the images the page requested, lazy ones included, and blocks private hosts', async () => {
+  const page = await scrape();
+
+  expect(page.imageRequests).toEqual([`${SITE}/hero.png`, `${SITE}/bg`, `${SITE}/below-fold.png`]);
+  expect(aborted).toEqual(['http://169.254.169.254/latest/meta-data', 'file:///etc/passwd']);
+  expect(page.links).toEqual([`${SITE}/features`, `${SITE}/pricing`]);
+  expect(page.rawHtml).toContain('Acme');
+  expect(page.metadata).toMatchObject({ title: 'Acme', language: 'en', sourceURL: `${SITE}/`, statusCode: 200 });
+});
+
+test('the context goes through the local guard proxy with service workers blocked', async () => {
+  await scrape();
+  const browser: FakeBrowser = await launch.mock.results[0].value;
+  expect(browser.options).toMatchObject({
+    proxy: { server: expect.stringMatching(/^http:\/\/127\.0\.0\.1:\d+$/) },
+    serviceWorkers: 'block',
+  });
+});
+
+test('reuses the browser until it disconnects, then launches a new one', async () => {
+  await scrape();
+  await scrape();
+  expect(launch).toHaveBeenCalledTimes(1);
+
+  const crashed: FakeBrowser = await launch.mock.results[0].value;
+  expect(crashed.contexts).toBe(2);
+  crashed.emit('disconnected');
+
+  await scrape();
+  expect(launch).toHaveBeenCalledTimes(2);
+});
+
+test('a failed launch is retried by the next scrape', async () => {
+  launch.mockRejectedValueOnce(new Error('spawn /opt/chromium ENOENT'));
+
+  await expect(scrape()).rejects.toThrow(/ENOENT/);
+  await expect(scrape()).resolves.toMatchObject({ rawHtml: expect.any(String) });
+  expect(launch).toHaveBeenCalledTimes(2);
+});
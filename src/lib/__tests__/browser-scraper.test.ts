@@ -0,0 +1,92 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { browserScrape, closeBrowser, screenshotImages } from '../browser-scraper';
+
+// 1×1 transparent PNG
+const PIXEL = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=',
+  'base64'
+);
+
+const FIXTURE = `<!doctype html>
+<html lang="en"><head><title>Acme – Boards</title></head><body style="margin:0">
+  <section class="hero" style="width:800px;height:400px;background:#336">Boards your team loves</section>
+  <div style="height:3000px"></div>
+  <img id="lazy" data-src="/below-fold.png" width="10" height="10">
+  <script>
+    new IntersectionObserver(([entry], obs) => {
+      if (!entry.isIntersecting) return;
+      entry.target.src = entry.target.dataset.src;
+      obs.disconnect();
+    }).observe(document.getElementById('lazy'));
+  </script>
+</body></html>`;
+
+let server: http.Server;
+let base: string;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    if (req.url === '/below-fold.png') {
+      res.writeHead(200, { 'Content-Type': 'image/png' });
+      res.end(PIXEL);
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'text/html' });
+    res.end(FIXTURE);
+  });
+  await new Promise<void>((res) => server.listen(0, '127.0.0.1', res));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await closeBrowser();
+  await new Promise<void>((res) => server.close(() => res()));
+});
+
+// needs a local Chromium (CHROMIUM_PATH)
+const withChromium = process.env.CHROMIUM_PATH ? test : test.skip;
+
+withChromium('browserScrape scrolls lazy images into view and captures screenshots', async () => {
+  const page = await browserScrape(`${base}/`, {
+    onlyMainContent: false,
+    formats: ['rawHtml', 'metadata'],
+    screenshots: true,
+  });
+
+  expect(page.imageRequests).toEqual([`${base}/below-fold.png`]);
+  expect(page.rawHtml).toContain('src="/below-fold.png"');
+  expect(page.rawHtml).not.toContain('data-crawl-shot');
+  expect(page.metadata).toMatchObject({ title: 'Acme – Boards', language: 'en', statusCode: 200 });
+  expect(page.screenshots?.map((s) => [s.kind, s.inHero, s.context])).toEqual([
+    ['viewport', true, 'Acme – Boards'],
+    ['element', true, 'Boards your team loves'],
+  ]);
+  expect(page.screenshots?.[1].url).toMatch(/^data:image\/png;base64,/);
+}, 60_000);
+
+test('screenshotImages turns captures into scored candidates', () => {
+  const imgs = screenshotImages(
+    [
+      { url: 'data:image/png;base64,AAAA', kind: 'viewport', inHero: true, context: 'Acme' },
+      { url: 'data:image/png;base64,BBBB', kind: 'element', inHero: false },
+    ],
+    'https://acme.test/features'
+  );
+  expect(imgs).toEqual([
+    {
+      url: 'data:image/png;base64,AAAA',
+      landingPage: 'https://acme.test/features',
+      source: 'screenshot',
+      context: 'Acme',
+      position: { index: 0, inHero: true, aboveFold: true },
+    },
+    {
+      url: 'data:image/png;base64,BBBB',
+      landingPage: 'https://acme.test/features',
+      source: 'screenshot',
+      context: undefined,
+      position: { index: 1, inHero: false, aboveFold: false },
+    },
+  ]);
+});
@@ -0,0 +1,59 @@
+import { createLimiter, mapLimit } from '../concurrency';
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+test('mapLimit keeps input order and never exceeds the limit', async () => {
+  let active = 0;
+  let peak = 0;
+  const out = await mapLimit([5, 1, 4, 2, 3], 2, async (n, i) => {
+    peak = Math.max(peak, ++active);
+    await new Promise((resolve) => setTimeout(resolve, n * 3));
+    active--;
+    return `${i}:${n}`;
+  });
+
+  expect(out).toEqual(['0:5', '1:1', '2:4', '3:2', '4:3']);
+  expect(peak).toBe(2);
+});
+
+test.each([0, NaN, -1])('mapLimit still runs every item with limit %p', async (limit) => {
+  await expect(mapLimit([1, 2, 3], limit, async (n) => n * 2)).resolves.toEqual([2, 4, 6]);
+});
+
+test('mapLimit rejects with the first failure', async () => {
+  await expect(
+    mapLimit([1, 2, 3], 3, async (n) => {
+      if (n === 2) throw new Error('boom');
+      return n;
+    })
+  ).rejects.toThrow('boom');
+});
+
+test('createLimiter queues calls beyond the limit in FIFO order', async () => {
+  const run = createLimiter(1);
+  const order: string[] = [];
+  await Promise.all(
+    ['a', 'b', 'c'].map((name) =>
+      run(async () => {
+        order.push(`start ${name}`);
+        await tick();
+        order.push(`end ${name}`);
+      })
+    )
+  );
+  expect(order).toEqual(['start a', 'end a', 'start b', 'end b', 'start c', 'end c']);
+});
+
+test.each([
+  ['', 3],
+  ['fast', 3],
+  ['0', 3],
+  ['0.5', 1],
+  ['6', 6],
+])('SCRAPE_CONCURRENCY=%p scrapes %p pages at once', (value, expected) => {
+  process.env.SCRAPE_CONCURRENCY = value;
+  jest.isolateModules(() => {
+    expect(require('../limits').SCRAPE_CONCURRENCY).toBe(expected);
+  });
+  delete process.env.SCRAPE_CONCURRENCY;
+});
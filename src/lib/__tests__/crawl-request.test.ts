@@ -0,0 +1,67 @@
+import { parseCrawlBody } from '../crawl-request';
+import { CrawlError } from '../errors';
+
+// the URL_BLOCKED cases need the address rules that setup.ts lifts
+delete process.env.ALLOW_PRIVATE_URLS;
+
+const fieldOf = (raw: string | undefined) => {
+  try {
+    parseCrawlBody(raw);
+  } catch (err) {
+    expect(err).toBeInstanceOf(CrawlError);
+    expect((err as CrawlError).code).toBe('INVALID_REQUEST');
+    return (err as CrawlError).field ?? 'body';
+  }
+  throw new Error('expected a validation error');
+};
+
+test('parseCrawlBody applies defaults and keeps the job id', () => {
+  const { request, jobId } = parseCrawlBody(
+    JSON.stringify({ url: 'https://acme.example', job_id: 'j-1', max_pages: 99, screenshots: true })
+  );
+  expect(jobId).toBe('j-1');
+  expect(request).toMatchObject({ url: 'https://acme.example', force_refresh: false, max_pages: 10, screenshots: true });
+});
+
+test.each([
+  [undefined, 'body'],
+  ['{not json', 'body'],
+  ['[]', 'body'],
+  ['{"url":"ftp://acme.example"}', 'url'],
+  ['{"url":"https://acme.example","max_page":3}', 'max_page'],
+  ['{"url":"https://acme.example","force_refresh":"yes"}', 'force_refresh'],
+  ['{"url":"https://acme.example","webhook_url":"hooks.example"}', 'webhook_url'],
+  ['{"url":"https://acme.example","alt_text":{"tone":"funny"}}', 'alt_text'],
+  ['{"url":"https://acme.example","max_images":0}', 'limits'],
+  ['{"url":"https://acme.example","scraper":"toString"}', 'scraper'],
+  ['{"url":"https://acme.example","scraper":"constructor"}', 'scraper'],
+])('parseCrawlBody(%s) is an INVALID_REQUEST for %s', (raw, field) => {
+  expect(fieldOf(raw)).toBe(field);
+});
+
+test('private addresses and bad url_policy entries are rejected up front', () => {
+  expect(() => parseCrawlBody('{"url":"http://169.254.169.254/latest/meta-data/"}')).toThrow(
+    expect.objectContaining({ code: 'URL_BLOCKED', status: 403, field: 'url' })
+  );
+  expect(fieldOf('{"url":"https://acme.example","url_policy":{"allow_domains":["acme example"]}}')).toBe('url_policy');
+});
+
+test('ai.*.base_url must be on the operator allowlist, which may name private hosts', () => {
+  process.env.LLM_ALLOWED_BASE_URLS = 'http://10.0.0.5/v1,https://llm.acme.example/v1';
+  try {
+    const ai = (step: string, base_url: string) =>
+      JSON.stringify({ url: 'https://acme.example', ai: { [step]: { provider: 'compatible', base_url } } });
+
+    expect(parseCrawlBody(ai('alt_text', 'https://llm.acme.example/v1')).request.ai).toEqual({
+      alt_text: { provider: 'compatible', base_url: 'https://llm.acme.example/v1' },
+    });
+    expect(parseCrawlBody(ai('classify', 'http://10.0.0.5/v1/')).request.ai).toEqual({
+      classify: { provider: 'compatible', base_url: 'http://10.0.0.5/v1' },
+    });
+    expect(() => parseCrawlBody(ai('alt_text', 'http://10.0.0.6/v1'))).toThrow(
+      expect.objectContaining({ code: 'INVALID_REQUEST', field: 'ai' })
+    );
+  } finally {
+    delete process.env.LLM_ALLOWED_BASE_URLS;
+  }
+});
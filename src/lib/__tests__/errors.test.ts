@@ -0,0 +1,29 @@
+import { CrawlError, errorBody, toCrawlError } from '../errors';
+import { AiOutputError } from '../llm';
+import { RobotsDisallowedError } from '../robots';
+
+test.each([
+  [new RobotsDisallowedError('https://acme.example/'), undefined, 'URL_BLOCKED', 403],
+  [new AiOutputError('alt_text', 'bad JSON'), 'image_analysis', 'AI_FAILED', 502],
+  [Object.assign(new Error('timeout of 30000ms exceeded'), { code: 'ECONNABORTED' }), 'homepage', 'TIMEOUT', 504],
+  [Object.assign(new Error('Access Denied'), { $metadata: { httpStatusCode: 403 } }), undefined, 'STORAGE_FAILED', 503],
+  [new Error('Request failed with status code 500'), 'homepage', 'SCRAPE_FAILED', 502],
+  [new Error('boom'), 'image_harvest', 'INTERNAL_ERROR', 500],
+  [new SyntaxError('Unexpected token'), undefined, 'INVALID_REQUEST', 400],
+] as const)('%s in step %s → %s', (err, step, code, status) => {
+  const error = toCrawlError(err, step);
+  expect(error).toBeInstanceOf(CrawlError);
+  expect([error.code, error.status, error.step]).toEqual([code, status, step]);
+  expect(error.cause).toBe(err);
+});
+
+test('CrawlErrors keep their code and gain the step', () => {
+  const original = new CrawlError('URL_BLOCKED', 'private address', { field: 'url' });
+  expect(toCrawlError(original)).toBe(original);
+  expect(errorBody(toCrawlError(original, 'page_scrape'))).toEqual({
+    code: 'URL_BLOCKED',
+    error: 'private address',
+    step: 'page_scrape',
+    field: 'url',
+  });
+});
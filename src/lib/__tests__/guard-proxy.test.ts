@@ -0,0 +1,84 @@
+import dns from 'dns';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { GuardProxy, startGuardProxy } from '../guard-proxy';
+
+let server: http.Server;
+let port: number;
+let proxy: GuardProxy;
+const hits: string[] = [];
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    hits.push(req.url ?? '');
+    res.end('ok');
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  port = (server.address() as AddressInfo).port;
+});
+
+afterAll(() => new Promise((resolve) => server.close(resolve)));
+
+beforeEach(async () => {
+  hits.length = 0;
+  process.env.ALLOW_PRIVATE_URLS = 'true';
+  proxy = await startGuardProxy({ deny_domains: ['tracker.example'] });
+});
+
+afterEach(async () => {
+  jest.restoreAllMocks();
+  await proxy.close();
+});
+
+const proxyPort = () => Number(new URL(proxy.server).port);
+
+/** GET `url` through the proxy, like Chromium does for plain HTTP */
+const viaProxy = (url: string) =>
+  new Promise<{ status?: number; body: string }>((resolve, reject) => {
+    http
+      .get({ host: '127.0.0.1', port: proxyPort(), path: url, headers: { 'Proxy-Connection': 'keep-alive' } }, (res) => {
+        let body = '';
+        res.on('data', (chunk) => (body += chunk));
+        res.on('end', () => resolve({ status: res.statusCode, body }));
+      })
+      .on('error', reject);
+  });
+
+/** Status of a CONNECT to `authority`; the tunnel is closed right away */
+const connect = (authority: string) =>
+  new Promise<number | undefined>((resolve, reject) => {
+    http
+      .request({ host: '127.0.0.1', port: proxyPort(), method: 'CONNECT', path: authority })
+      .on('connect', (res, socket) => {
+        socket.destroy();
+        resolve(res.statusCode);
+      })
+      .on('error', reject)
+      .end();
+  });
+
+test('forwards allowed requests and tunnels', async () => {
+  expect(await viaProxy(`http://127.0.0.1:${port}/page?x=1`)).toEqual({ status: 200, body: 'ok' });
+  expect(hits).toEqual(['/page?x=1']);
+  expect(await connect(`127.0.0.1:${port}`)).toBe(200);
+});
+
+test('refuses private addresses, denied domains and other schemes', async () => {
+  delete process.env.ALLOW_PRIVATE_URLS;
+
+  expect((await viaProxy(`http://127.0.0.1:${port}/`)).status).toBe(403);
+  expect((await viaProxy('http://tracker.example/pixel.gif')).status).toBe(403);
+  expect((await viaProxy('ftp://acme.example/file')).status).toBe(403);
+  expect(await connect('169.254.169.254:443')).toBe(403);
+  expect(await connect('localhost:443')).toBe(403);
+  expect(hits).toEqual([]);
+});
+
+test('connects to the address it checked, so a private DNS answer is refused', async () => {
+  delete process.env.ALLOW_PRIVATE_URLS;
+  jest.spyOn(dns.promises, 'lookup').mockResolvedValue([{ address: '127.0.0.1', family: 4 }] as any);
+
+  expect((await viaProxy(`http://rebind.acme.example:${port}/`)).status).toBe(502);
+  expect(await connect(`rebind.acme.example:${port}`)).toBe(502);
+  expect(hits).toEqual([]);
+});
@@ -0,0 +1,100 @@
+import { parseImages, parseSrcset, pickBestVariant } from '../html-images';
+
+test('parseSrcset handles w/x descriptors, bare URLs and commas inside URLs', () => {
+  expect(parseSrcset('a.png 320w, b.png 1280w')).toEqual([
+    { url: 'a.png', width: 320 },
+    { url: 'b.png', width: 1280 },
+  ]);
+  expect(parseSrcset('one.jpg, two.jpg 2x')).toEqual([
+    { url: 'one.jpg', density: 1 },
+    { url: 'two.jpg', density: 2 },
+  ]);
+  expect(parseSrcset('https://res.cloudinary.com/x/c_fill,w_300/p.jpg 300w')).toEqual([
+    { url: 'https://res.cloudinary.com/x/c_fill,w_300/p.jpg', width: 300 },
+  ]);
+});
+
+test('pickBestVariant prefers the widest w candidate, else highest density', () => {
+  expect(pickBestVariant(parseSrcset('s.png 320w, l.png 1920w, m.png 960w'))?.url).toBe('l.png');
+  expect(pickBestVariant(parseSrcset('a.png 1x, b.png 3x, c.png 2x'))?.url).toBe('b.png');
+});
+
+test('parseImages picks the largest Next.js srcset candidate and keeps the rest', () => {
+  const html = `
+    <img alt="Dashboard"
+         src="/_next/image?url=%2Fdash.png&w=3840&q=75"
+         srcset="/_next/image?url=%2Fdash.png&w=640&q=75 640w, /_next/image?url=%2Fdash.png&w=3840&q=75 3840w"
+         sizes="100vw">
+    <picture>
+      <source type="image/webp" srcset="/p-400.webp 400w, /p-1600.webp 1600w">
+      <img src="/p-400.jpg" alt="Widget">
+    </picture>`;
+
+  const [next, picture] = parseImages(html, 'https://acme.test/');
+  expect(next.url).toBe('https://acme.test/_next/image?url=%2Fdash.png&w=3840&q=75');
+  expect(next.width).toBe(3840);
+  expect(next.sizes).toBe('100vw');
+  expect(next.variants).toEqual([
+    { url: 'https://acme.test/_next/image?url=%2Fdash.png&w=640&q=75', width: 640 },
+  ]);
+
+  expect(picture.url).toBe('https://acme.test/p-1600.webp');
+  expect(picture.alt).toBe('Widget');
+  expect(picture.variants?.map((v) => v.url)).toEqual([
+    'https://acme.test/p-400.webp',
+    'https://acme.test/p-400.jpg',
+  ]);
+});
+
+test('parseImages tags images from CSS, meta, video, JSON-LD and inline SVG', () => {
+  const bigSvg = `<svg viewBox="0 0 800 600"><title>Board</title>${'<rect width="10" height="10"/>'.repeat(60)}</svg>`;
+  const html = `
+    <head>
+      <meta name="twitter:image" content="/tw.png">
+      <style>.hero { background: #fff url("/hero-bg.jpg") no-repeat; }
+             .shot { background-image: image-set("/s-1x.png" 1x, "/s-2x.png" 2x); }</style>
+      <script type="application/ld+json">
+        {"@context": "https://schema.org", "@type": "SoftwareApplication",
+         "screenshot": [{"@type": "ImageObject", "url": "/ld-shot.png"}], "image": "/ld.png"}
+      </script>
+    </head>
+    <body>
+      <video poster="/poster.jpg"></video>
+      <div style="background-image: url('/inline.webp')">Hero</div>
+      ${bigSvg}
+      <a href="/"><svg viewBox="0 0 800 600">${'<path d="M0 0"/>'.repeat(200)}</svg></a>
+    </body>`;
+
+  const found = parseImages(html, 'https://acme.test/', [[{ url: 'https://cdn.acme.test/css-bg.png', density: 1 }]]);
+  const bySource = Object.fromEntries(found.map((i) => [i.url.startsWith('data:') ? 'svg' : i.url, i.source]));
+
+  expect(bySource).toMatchObject({
+    'https://acme.test/poster.jpg': 'video-poster',
+    'https://acme.test/inline.webp': 'inline-style',
+    'https://acme.test/hero-bg.jpg': 'style-block',
+    'https://acme.test/s-2x.png': 'style-block',
+    'https://cdn.acme.test/css-bg.png': 'stylesheet',
+    'https://acme.test/tw.png': 'twitter:image',
+    'https://acme.test/ld-shot.png': 'json-ld',
+    'https://acme.test/ld.png': 'json-ld',
+    svg: 'inline-svg',
+  });
+  // the SVG inside a link is UI chrome, the 1x image-set entry is a variant
+  expect(found.filter((i) => i.source === 'inline-svg')).toHaveLength(1);
+  expect(found.find((i) => i.url.endsWith('s-2x.png'))?.variants).toEqual([
+    { url: 'https://acme.test/s-1x.png', density: 1 },
+  ]);
+});
+
+test('parseImages adds browser image requests that are not in the markup', () => {
+  const html = `<img src="/hero.png" srcset="/hero-640.png 640w, /hero.png 1280w">`;
+  const found = parseImages(html, 'https://acme.test/', [], [
+    'https://acme.test/hero-640.png',
+    'https://acme.test/hero.png',
+    'https://acme.test/lazy-carousel-2.webp',
+  ]);
+  expect(found.map((i) => [i.url, i.source])).toEqual([
+    ['https://acme.test/hero.png', 'img'],
+    ['https://acme.test/lazy-carousel-2.webp', 'network'],
+  ]);
+});
@@ -0,0 +1,40 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { httpScrape } from '../http-scraper';
+
+const FIXTURE = `<!doctype html>
+<html lang="en"><head>
+  <title>Acme – Dashboards</title>
+  <meta name="description" content="Acme dashboards">
+</head><body>
+  <a href="/features">Features</a>
+  <a href="https://acme.test/pricing">Pricing</a>
+  <a href="/features">Features again</a>
+  <a href="mailto:hi@acme.test">Mail</a>
+  <img src="/hero.png">
+</body></html>`;
+
+let server: http.Server;
+let base: string;
+
+beforeAll(async () => {
+  server = http.createServer((_req, res) => {
+    res.writeHead(200, { 'Content-Type': 'text/html' });
+    res.end(FIXTURE);
+  });
+  await new Promise<void>((res) => server.listen(0, '127.0.0.1', res));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>((res) => server.close(() => res())));
+
+test('httpScrape returns raw HTML, absolute links and metadata', async () => {
+  const page = await httpScrape(`${base}/`, {
+    onlyMainContent: false,
+    formats: ['links', 'rawHtml', 'metadata'],
+  });
+
+  expect(page.rawHtml).toContain('<img src="/hero.png">');
+  expect(page.links).toEqual([`${base}/features`, 'https://acme.test/pricing']);
+  expect(page.metadata).toMatchObject({ title: 'Acme – Dashboards', language: 'en', statusCode: 200 });
+});
@@ -0,0 +1,42 @@
+import { heuristicClassifyImage } from '../heuristics';
+import { categoryRelevance, parseCategories } from '../image-categories';
+import { classifyImages } from '../openai';
+
+jest.mock('../llm', () => ({
+  ...jest.requireActual('../llm'),
+  structuredChat: jest.fn(async () => {
+    throw Object.assign(new Error('429 Rate limit reached'), { status: 429 });
+  }),
+}));
+
+test.each([
+  [{ url: 'https://example.com/img/acme-logo.svg' }, 'logo'],
+  [{ url: 'https://example.com/a.png', alt: 'Our founder Jane' }, 'people'],
+  [{ url: 'https://example.com/a.png', alt: 'Reporting dashboard' }, 'screenshot'],
+  [{ url: 'https://example.com/iphone-mockup.png' }, 'mockup'],
+  [{ url: 'https://example.com/a.png', dimensions: { width: 1440, height: 900 } }, 'screenshot'],
+  [{ url: 'data:image/png;base64,AAAA', source: 'screenshot', context: 'Loved by 10,000 teams' }, 'screenshot'],
+])('heuristic classifies %o as %s', (item, category) => {
+  const c = heuristicClassifyImage(item);
+  expect(c.category).toBe(category);
+  expect(c.confidence).toBeLessThanOrEqual(0.5);
+});
+
+test('relevance follows the category and shrinks towards 0.5 with low confidence', () => {
+  expect(categoryRelevance({ category: 'screenshot', confidence: 1 })).toBe(1);
+  expect(categoryRelevance({ category: 'logo', confidence: 1 })).toBe(0);
+  expect(categoryRelevance({ category: 'logo', confidence: 0 })).toBe(0.5);
+});
+
+test('parseCategories validates and dedupes', () => {
+  expect(parseCategories(undefined)).toBeUndefined();
+  expect(parseCategories(['screenshot', 'mockup', 'screenshot'])).toEqual(['screenshot', 'mockup']);
+  expect(() => parseCategories(['screenshots'])).toThrow(/unknown screenshots/);
+  expect(() => parseCategories([])).toThrow(/non-empty array/);
+});
+
+test('classifyImages falls back to the heuristic when the API call fails', async () => {
+  const item = { url: 'https://example.com/img/acme-logo.svg' };
+  const [result] = await classifyImages([item], { provider: 'openai', model: 'gpt-4o-mini' });
+  expect(result).toMatchObject({ ...heuristicClassifyImage(item), error: '429 Rate limit reached' });
+});
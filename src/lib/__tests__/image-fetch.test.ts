@@ -0,0 +1,82 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createImageFetcher } from '../image-fetch';
+
+let server: http.Server;
+let base: string;
+let hits = 0;
+let inFlight = 0;
+let maxInFlight = 0;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    hits++;
+    inFlight++;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    const size = req.url === '/big.png' ? 4096 : 64;
+    setTimeout(() => {
+      inFlight--;
+      res.writeHead(200, { 'Content-Type': 'image/png; charset=binary' });
+      res.end(Buffer.alloc(size));
+    }, 20);
+  });
+  await new Promise<void>((res) => server.listen(0, '127.0.0.1', res));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>((res) => server.close(() => res())));
+
+beforeEach(() => {
+  hits = 0;
+  maxInFlight = 0;
+});
+
+test('each URL is downloaded once, even for concurrent callers', async () => {
+  const fetcher = createImageFetcher();
+  const [a, b] = await Promise.all([fetcher.get(`${base}/a.png`), fetcher.get(`${base}/a.png`)]);
+  await fetcher.get(`${base}/a.png`);
+
+  expect(hits).toBe(1);
+  expect(a).toBe(b);
+  expect(a.contentType).toBe('image/png');
+  expect(fetcher.timer.report().download.count).toBe(1);
+});
+
+test('per-host limit bounds parallel downloads', async () => {
+  const fetcher = createImageFetcher({ perHost: 2, concurrency: 8 });
+  await Promise.all(Array.from({ length: 6 }, (_, i) => fetcher.get(`${base}/${i}.png`)));
+
+  expect(hits).toBe(6);
+  expect(maxInFlight).toBeLessThanOrEqual(2);
+});
+
+test('responses over the byte cap are rejected', async () => {
+  const fetcher = createImageFetcher({ maxBytes: 1024 });
+  await expect(fetcher.get(`${base}/big.png`)).rejects.toThrow(/maxContentLength/);
+});
+
+test('the cache stays under maxCacheBytes, dropping the least recently used first', async () => {
+  const fetcher = createImageFetcher({ maxCacheBytes: 150 });
+  await fetcher.get(`${base}/a.png`);
+  await fetcher.get(`${base}/b.png`);
+  await fetcher.get(`${base}/a.png`); // a is now the most recent
+  await fetcher.get(`${base}/c.png`); // 192 bytes > 150 – b goes
+  expect(hits).toBe(3);
+  expect(fetcher.cachedBytes).toBe(128);
+
+  await fetcher.get(`${base}/a.png`);
+  expect(hits).toBe(3);
+  await fetcher.get(`${base}/b.png`);
+  expect(hits).toBe(4);
+  expect(fetcher.size).toBe(3);
+});
+
+test('evicted URLs are downloaded again', async () => {
+  const fetcher = createImageFetcher();
+  await fetcher.get(`${base}/a.png`);
+  fetcher.evict(`${base}/a.png`);
+  expect(fetcher.cachedBytes).toBe(0);
+
+  await fetcher.get(`${base}/a.png`);
+  expect(hits).toBe(2);
+});
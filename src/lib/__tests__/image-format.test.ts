@@ -0,0 +1,51 @@
+import sharp from 'sharp';
+import { detectImageFormat, isAiReadable } from '../image-format';
+
+const ftyp = (major: string, ...compatible: string[]) => {
+  const brands = [major, '\0\0\0\0', ...compatible].join('');
+  const box = Buffer.alloc(8 + brands.length);
+  box.writeUInt32BE(box.length, 0);
+  box.write('ftyp', 4, 'latin1');
+  box.write(brands, 8, 'latin1');
+  return Buffer.concat([box, Buffer.alloc(32)]);
+};
+
+test.each(['jpeg', 'png', 'gif', 'webp', 'tiff'] as const)('detects %s from the bytes', async (format) => {
+  const buffer = await sharp({ create: { width: 4, height: 4, channels: 3, background: '#fff' } })
+    .toFormat(format)
+    .toBuffer();
+  expect(detectImageFormat(buffer)).toBe(format);
+});
+
+test('tells AVIF and HEIC from video in ISO-BMFF files', () => {
+  expect(detectImageFormat(ftyp('avif', 'mif1', 'miaf'))).toBe('avif');
+  expect(detectImageFormat(ftyp('mif1', 'avif'))).toBe('avif');
+  expect(detectImageFormat(ftyp('heic', 'mif1'))).toBe('heic');
+  expect(detectImageFormat(ftyp('isom', 'mp41'))).toBeUndefined();
+});
+
+test('detects SVG behind a prolog, comments and doctype', () => {
+  const svg = `\uFEFF<?xml version="1.0"?>\n<!-- logo -->\n<!DOCTYPE svg>\n<svg xmlns="http://www.w3.org/2000/svg"></svg>`;
+  expect(detectImageFormat(Buffer.from(svg))).toBe('svg');
+
+  const longHeader = `<!-- ${'x'.repeat(5000)} -->\n<svg></svg>`;
+  expect(detectImageFormat(Buffer.from(longHeader))).toBeUndefined();
+  expect(detectImageFormat(Buffer.from(longHeader.slice(0, 4000) + '<svg viewBox="0 0 1 1">'), 'image/svg+xml')).toBe(
+    'svg'
+  );
+});
+
+test('rejects error pages and empty bodies whatever the URL or header says', () => {
+  const html = Buffer.from('<!DOCTYPE html><html><body><svg></svg>Not found</body></html>');
+  expect(detectImageFormat(html, 'image/png')).toBeUndefined();
+  expect(detectImageFormat(html, 'image/svg+xml')).toBeUndefined();
+  expect(detectImageFormat(Buffer.from('{"error":"forbidden"}'), 'application/json')).toBeUndefined();
+  expect(detectImageFormat(Buffer.alloc(0), 'image/jpeg')).toBeUndefined();
+});
+
+test('only JPEG, PNG, WebP and GIF go to the vision models', () => {
+  expect(isAiReadable('webp')).toBe(true);
+  expect(isAiReadable('svg')).toBe(false);
+  expect(isAiReadable('avif')).toBe(false);
+  expect(isAiReadable(undefined)).toBe(false);
+});
@@ -0,0 +1,84 @@
+import { dedupeImages, hasValidFormat, preselectImages } from '../image-hash';
+import { createImageFetcher } from '../image-fetch';
+
+/** PNG signature + unique tail: detected as PNG, hashed by sha256 (undecodable) */
+const png = (tail: string) => Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.from(tail)]);
+
+const seeded = (files: Record<string, Buffer>) => {
+  const fetcher = createImageFetcher();
+  for (const [url, buffer] of Object.entries(files)) fetcher.put(url, { buffer, contentType: 'image/png' });
+  return fetcher;
+};
+
+const image = (url: string) => ({ url, landingPage: 'https://acme.example' });
+
+test('dedupeImages stops downloading once it has `limit` uniques', async () => {
+  const urls = Array.from({ length: 40 }, (_, i) => `https://cdn.acme.example/${i}.png`);
+  const fetcher = seeded(Object.fromEntries(urls.map((url, i) => [url, png(`image ${i}`)])));
+  const get = jest.spyOn(fetcher, 'get');
+
+  const unique = await dedupeImages(urls.map(image), fetcher, { limit: 3 });
+
+  expect(unique.map((img) => img.url)).toEqual(urls.slice(0, 3));
+  expect(get.mock.calls.length).toBeLessThan(urls.length);
+});
+
+test('dedupeImages keeps the first occurrence and evicts the bytes of duplicates', async () => {
+  const fetcher = seeded({
+    'https://cdn.acme.example/a.png': png('same'),
+    'https://cdn.acme.example/a-copy.png': png('same'),
+    'https://cdn.acme.example/b.png': png('other'),
+  });
+  const evict = jest.spyOn(fetcher, 'evict');
+
+  const unique = await dedupeImages(
+    ['a.png', 'a-copy.png', 'b.png'].map((name) => image(`https://cdn.acme.example/${name}`)),
+    fetcher
+  );
+
+  expect(unique.map((img) => img.url)).toEqual(['https://cdn.acme.example/a.png', 'https://cdn.acme.example/b.png']);
+  expect(evict).toHaveBeenCalledWith('https://cdn.acme.example/a-copy.png');
+  expect(evict).not.toHaveBeenCalledWith('https://cdn.acme.example/a.png');
+});
+
+test('dedupeImages records the format, so the AI steps never download again', async () => {
+  const fetcher = seeded({ 'https://cdn.acme.example/a.png': png('a') });
+  const [img] = await dedupeImages([image('https://cdn.acme.example/a.png')], fetcher);
+  fetcher.evict(img.url);
+  const get = jest.spyOn(fetcher, 'get');
+
+  expect(img.format).toBe('png');
+  expect(hasValidFormat(img)).toBe(true);
+  expect(get).not.toHaveBeenCalled();
+});
+
+test('preselectImages drops page chrome by file name and declared width', () => {
+  const imgs = [
+    image('https://acme.example/img/dashboard.png'),
+    image('https://acme.example/favicon.ico'),
+    image('https://acme.example/img/apple-touch-icon.png'),
+    image('https://acme.example/img/logo.svg?v=2'),
+    image('https://acme.example/img/time-tracking-report.png'),
+    image('https://acme.example/img/pixel.gif'),
+    { ...image('https://acme.example/img/thumb.png'), width: 64 },
+    image('data:image/svg+xml,%3Csvg%3E%3C/svg%3E'),
+  ];
+
+  expect(preselectImages(imgs).map((img) => img.url)).toEqual([
+    'https://acme.example/img/dashboard.png',
+    'https://acme.example/img/time-tracking-report.png',
+    'data:image/svg+xml,%3Csvg%3E%3C/svg%3E',
+  ]);
+  expect(preselectImages(imgs, { keepLogos: true }).map((img) => img.url)).toContain('https://acme.example/img/logo.svg?v=2');
+});
+
+test('preselectImages caps the candidates by page signals, in discovery order', () => {
+  const imgs = [
+    { ...image('https://acme.example/a.png'), source: 'stylesheet' as const },
+    { ...image('https://acme.example/b.png'), source: 'img' as const, alt: 'product dashboard' },
+    { ...image('https://acme.example/c.png'), source: 'stylesheet' as const },
+    { ...image('https://acme.example/d.png'), source: 'img' as const, position: { index: 0, inHero: true, aboveFold: true } },
+  ];
+
+  expect(preselectImages(imgs, { max: 2 }).map((img) => img.url)).toEqual(['https://acme.example/b.png', 'https://acme.example/d.png']);
+});
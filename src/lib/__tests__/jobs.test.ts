@@ -0,0 +1,32 @@
+import { createJob, getJob, jobView, updateJob } from '../jobs';
+
+jest.mock('../s3', () => require('./memory-s3'));
+
+const request = { url: 'https://acme.example', force_refresh: false, max_pages: 3, max_depth: 1, max_images: 5, max_ai_images: 5 };
+
+test('createJob stores a queued job and refuses a taken id', async () => {
+  const job = await createJob('job_1', request);
+  expect(job).toMatchObject({ job_id: 'job_1', status: 'queued', source_url: 'https://acme.example' });
+  expect(await getJob('job_1')).toEqual(job);
+
+  await expect(createJob('job_1', { ...request, url: 'https://other.example' })).rejects.toMatchObject({
+    code: 'INVALID_REQUEST',
+    field: 'job_id',
+  });
+  expect((await getJob('job_1'))?.source_url).toBe('https://acme.example');
+});
+
+test('updateJob merges a patch and bumps updated_at', async () => {
+  const job = await createJob('job_2', request);
+  const next = await updateJob('job_2', { status: 'started', started_at: '2026-01-01T00:00:00.000Z' });
+
+  expect(next).toMatchObject({ job_id: 'job_2', status: 'started', request });
+  expect(next.updated_at >= job.updated_at).toBe(true);
+  await expect(updateJob('job_missing', { status: 'started' })).rejects.toThrow('not found');
+});
+
+test('jobView hides the stored request', async () => {
+  const view = jobView(await createJob('job_3', request));
+  expect(view).not.toHaveProperty('request');
+  expect(view).toMatchObject({ job_id: 'job_3', status: 'queued' });
+});
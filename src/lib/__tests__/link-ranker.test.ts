@@ -0,0 +1,108 @@
+import { globMatch, normalizeLink, parseLinkRules, rankLinks } from '../link-ranker';
+
+const SITE = 'https://www.acme.example/';
+
+const links = [
+  'https://www.acme.example/',
+  'https://www.acme.example/#pricing',
+  'https://www.acme.example/privacy-policy',
+  'https://www.acme.example/login',
+  'https://www.acme.example/blog/launch',
+  'https://www.acme.example/pricing',
+  'https://www.acme.example/de/funktionen',
+  'https://www.acme.example/pt-br/recursos',
+  'https://twitter.com/acme',
+  'https://app.acme.example/signup',
+  'https://www.acme.example/compare/acme-vs-foo',
+  'https://www.acme.example/compare',
+  'https://www.acme.example/compare/acme-vs-bar',
+  'https://www.acme.example/customers',
+  'https://www.acme.example/features?utm_source=nav',
+  'https://www.acme.example/features/',
+  'https://www.acme.example/integrations/slack',
+  'https://www.acme.example/product/tour#video',
+];
+
+test('applies the link-filter ruleset and scores product pages first', () => {
+  expect(rankLinks(links, SITE).map((l) => l.url)).toEqual([
+    'https://www.acme.example/features',
+    'https://www.acme.example/product/tour',
+    'https://www.acme.example/integrations/slack',
+    'https://www.acme.example/compare',
+    'https://www.acme.example/customers',
+  ]);
+});
+
+test('per-request allow/deny patterns', () => {
+  const ranked = rankLinks(links, SITE, { allow: ['/blog/*'], deny: ['/integrations/*', '*customers*'] }).map(
+    (l) => l.url
+  );
+  expect(ranked[0]).toBe('https://www.acme.example/blog/launch');
+  expect(ranked).not.toContain('https://www.acme.example/integrations/slack');
+  expect(ranked).not.toContain('https://www.acme.example/customers');
+});
+
+test('locale-prefixed sites keep their own locale', () => {
+  const ranked = rankLinks(
+    ['https://acme.example/de/funktionen', 'https://acme.example/en/features'],
+    'https://acme.example/de/'
+  ).map((l) => l.url);
+  expect(ranked).toEqual(['https://acme.example/de/funktionen']);
+});
+
+test('globMatch: `*` matches anything, the rest literally', () => {
+  expect(globMatch('/integrations/*', '/Integrations/slack')).toBe(true);
+  expect(globMatch('/blog/*/comments', '/blog/2024/post/comments')).toBe(true);
+  expect(globMatch('/a.b', '/axb')).toBe(false);
+  expect(globMatch('*', '')).toBe(true);
+  expect(globMatch('/docs', '/docs/intro')).toBe(false);
+});
+
+test('globMatch stays fast on patterns full of wildcards', () => {
+  const started = Date.now();
+  expect(globMatch('/' + 'a*'.repeat(99) + 'c', '/' + 'a'.repeat(2000) + 'b')).toBe(false);
+  expect(Date.now() - started).toBeLessThan(200);
+});
+
+test('normalizeLink strips fragments, tracking params and trailing slashes', () => {
+  expect(normalizeLink('/features/?utm_campaign=x&tab=2#top', SITE)).toBe('https://www.acme.example/features?tab=2');
+  expect(normalizeLink('mailto:hi@acme.example')).toBeUndefined();
+});
+
+test('parseLinkRules validates shape', () => {
+  expect(parseLinkRules({ deny: ['/careers*'] })).toEqual({ deny: ['/careers*'] });
+  expect(() => parseLinkRules({ block: [] })).toThrow(/unknown key block/);
+  expect(() => parseLinkRules({ allow: '/x' })).toThrow(/array/);
+});
+
+test('deny rules match whole path segments only', () => {
+  const ranked = rankLinks(
+    [
+      'https://acme.example/guided-tour',
+      'https://acme.example/teams',
+      'https://acme.example/presentations',
+      'https://acme.example/events-platform',
+      'https://acme.example/templates',
+      'https://acme.example/team',
+      'https://acme.example/events',
+      'https://acme.example/terms-of-service',
+      'https://acme.example/customer-stories/foo',
+    ],
+    'https://acme.example/'
+  ).map((l) => l.url);
+  expect(ranked.sort()).toEqual([
+    'https://acme.example/events-platform',
+    'https://acme.example/guided-tour',
+    'https://acme.example/presentations',
+    'https://acme.example/teams',
+    'https://acme.example/templates',
+  ]);
+});
+
+test('/hr, /it and /id are product sections unless they carry a region', () => {
+  const ranked = rankLinks(
+    ['https://acme.example/hr/payroll', 'https://acme.example/it/asset-management', 'https://acme.example/it-it/funzioni'],
+    'https://acme.example/'
+  ).map((l) => l.url);
+  expect(ranked).toEqual(['https://acme.example/hr/payroll', 'https://acme.example/it/asset-management']);
+});
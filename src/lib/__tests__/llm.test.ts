@@ -0,0 +1,129 @@
+import { AiOutputError, chatClient, parseAiConfig, resolveModel, structuredChat, Validation } from '../llm';
+import { socketLookup } from '../url-policy';
+
+const mockCreate = jest.fn();
+
+jest.mock('openai', () => {
+  class MockOpenAI {
+    chat = { completions: { create: mockCreate } };
+    constructor(public options: any) {}
+  }
+  return { __esModule: true, default: MockOpenAI, AzureOpenAI: MockOpenAI };
+});
+
+const ENV_KEYS = ['LLM_PROVIDER', 'ALT_TEXT_PROVIDER', 'ALT_TEXT_MODEL', 'LLM_COMPATIBLE_BASE_URL', 'LLM_ALLOWED_BASE_URLS'];
+
+afterEach(() => {
+  for (const key of ENV_KEYS) delete process.env[key];
+});
+
+test('resolveModel prefers the request, then the step env, then LLM_PROVIDER, then defaults', () => {
+  expect(resolveModel('alt_text')).toEqual({ provider: 'openai', model: 'gpt-4o-mini', baseUrl: undefined });
+
+  process.env.LLM_PROVIDER = 'azure';
+  expect(resolveModel('alt_text').provider).toBe('azure');
+
+  process.env.ALT_TEXT_PROVIDER = 'heuristic';
+  process.env.ALT_TEXT_MODEL = 'small-model';
+  expect(resolveModel('alt_text')).toMatchObject({ provider: 'heuristic', model: 'small-model' });
+  expect(resolveModel('link_filter')).toMatchObject({ provider: 'azure', model: 'gpt-4.1' });
+
+  expect(resolveModel('alt_text', { provider: 'openai', model: 'gpt-4o' })).toMatchObject({ provider: 'openai', model: 'gpt-4o' });
+});
+
+test('resolveModel ignores an unknown env provider', () => {
+  process.env.LLM_PROVIDER = 'skynet';
+  expect(resolveModel('classify').provider).toBe('openai');
+});
+
+test('parseAiConfig validates steps, providers and models', () => {
+  expect(parseAiConfig(undefined)).toBeUndefined();
+  expect(parseAiConfig({ alt_text: { provider: 'heuristic' } })).toEqual({ alt_text: { provider: 'heuristic' } });
+
+  expect(() => parseAiConfig([])).toThrow('ai must be an object');
+  expect(() => parseAiConfig({ summarize: {} })).toThrow('unknown step summarize');
+  expect(() => parseAiConfig({ classify: 'openai' })).toThrow('ai.classify must be an object');
+  expect(() => parseAiConfig({ classify: { provider: 'skynet' } })).toThrow('ai.classify.provider must be one of');
+  expect(() => parseAiConfig({ classify: { model: 4 } })).toThrow('ai.classify.model must be a string');
+});
+
+test('parseAiConfig accepts only configured or allow-listed base_url endpoints', () => {
+  const cfg = (base_url: string, provider = 'compatible') => ({ link_filter: { provider, base_url } });
+
+  expect(() => parseAiConfig(cfg('https://attacker.example/v1'))).toThrow('not an allowed endpoint');
+  expect(() => parseAiConfig(cfg('file:///etc/passwd'))).toThrow('must be an http(s) URL');
+
+  process.env.LLM_COMPATIBLE_BASE_URL = 'http://vllm.internal:8000/v1';
+  process.env.LLM_ALLOWED_BASE_URLS = 'https://llm-a.example/v1, https://llm-b.example/v1/';
+  expect(parseAiConfig(cfg('https://llm-b.example/v1/'))).toEqual({
+    link_filter: { provider: 'compatible', base_url: 'https://llm-b.example/v1' },
+  });
+  expect(parseAiConfig(cfg('http://vllm.internal:8000/v1'))?.link_filter?.base_url).toBe('http://vllm.internal:8000/v1');
+  expect(() => parseAiConfig(cfg('https://llm-a.example/v1', 'openai'))).toThrow('needs provider azure or compatible');
+  expect(() => parseAiConfig(cfg('https://llm-a.example/v1/extra'))).toThrow('not an allowed endpoint');
+});
+
+test('a request-chosen endpoint checks its DNS answer on connect unless the allowlist names a private host', () => {
+  delete process.env.ALLOW_PRIVATE_URLS;
+  try {
+    const agentOf = (baseUrl: string) => (chatClient({ provider: 'compatible', model: 'm', baseUrl }) as any).options.httpAgent;
+
+    expect(agentOf('https://llm-a.example/v1').options.lookup).toBe(socketLookup);
+    expect(agentOf('http://10.0.0.5:11434/v1')).toBeUndefined();
+    expect(agentOf('http://ollama.internal:11434/v1')).toBeUndefined();
+  } finally {
+    process.env.ALLOW_PRIVATE_URLS = 'true';
+  }
+});
+
+/* ---------- structuredChat ---------- */
+
+const answer = (content: string) => ({ choices: [{ message: { content } }] });
+
+const chat = (repairAttempts?: number) =>
+  structuredChat(
+    { provider: 'openai', model: 'gpt-4o-mini' },
+    {
+      step: 'link_filter',
+      messages: [{ role: 'user', content: 'pick links' }],
+      schemaName: 'links',
+      schema: { type: 'object' },
+      validate: (parsed: any): Validation<string[]> =>
+        Array.isArray(parsed.links) ? { ok: true, value: parsed.links } : { ok: false, error: 'links must be an array' },
+      repairAttempts,
+    }
+  );
+
+beforeEach(() => mockCreate.mockReset());
+
+test('structuredChat returns the first valid answer', async () => {
+  mockCreate.mockResolvedValueOnce(answer('{"links":["https://acme.example/features"]}'));
+  await expect(chat()).resolves.toEqual(['https://acme.example/features']);
+  expect(mockCreate).toHaveBeenCalledTimes(1);
+  expect(mockCreate.mock.calls[0][0].response_format).toMatchObject({ type: 'json_schema', json_schema: { name: 'links', strict: true } });
+});
+
+test('structuredChat sends an invalid answer back with the error and uses the repair', async () => {
+  mockCreate
+    .mockResolvedValueOnce(answer('not json'))
+    .mockResolvedValueOnce(answer('{"links":"https://acme.example"}'))
+    .mockResolvedValueOnce(answer('{"links":["https://acme.example/pricing"]}'));
+
+  await expect(chat()).resolves.toEqual(['https://acme.example/pricing']);
+  expect(mockCreate).toHaveBeenCalledTimes(3);
+
+  const messages = mockCreate.mock.calls[2][0].messages;
+  expect(messages).toHaveLength(5);
+  expect(messages[1]).toEqual({ role: 'assistant', content: 'not json' });
+  expect(messages[2].content).toContain('answer is not valid JSON');
+  expect(messages[4].content).toContain('links must be an array');
+});
+
+test('structuredChat throws AiOutputError once the repair budget is used up', async () => {
+  mockCreate.mockResolvedValue(answer('{"links":null}'));
+
+  const error = await chat(1).catch((err) => err);
+  expect(error).toBeInstanceOf(AiOutputError);
+  expect(error).toMatchObject({ step: 'link_filter', raw: '{"links":null}', message: 'link_filter: links must be an array' });
+  expect(mockCreate).toHaveBeenCalledTimes(2);
+});
@@ -0,0 +1,42 @@
+import crypto from 'crypto';
+
+/* -----------------------------------------------------------
+   In-memory stand-in for ../s3 (ETags included), for
+   `jest.mock('../s3', () => require('./memory-s3'))`
+----------------------------------------------------------- */
+
+export const store = new Map<string, { data: unknown; etag: string }>();
+let version = 0;
+
+const write = (key: string, data: unknown) =>
+  // a JSON round trip, like the real bucket
+  store.set(key, { data: JSON.parse(JSON.stringify(data)), etag: `"${++version}"` });
+
+export const sha256 = (text: string) => crypto.createHash('sha256').update(text).digest('hex');
+
+export async function putObject(key: string, data: unknown) {
+  write(key, data);
+}
+
+export async function getObject<T = unknown>(key: string): Promise<T | undefined> {
+  return store.get(key)?.data as T | undefined;
+}
+
+export async function getObjectVersioned<T = unknown>(key: string): Promise<{ data: T; etag: string } | undefined> {
+  return store.get(key) as { data: T; etag: string } | undefined;
+}
+
+export async function putObjectIf(
+  key: string,
+  data: unknown,
+  condition: { ifMatch: string } | { ifNoneMatch: '*' }
+): Promise<boolean> {
+  const current = store.get(key);
+  if ('ifMatch' in condition ? current?.etag !== condition.ifMatch : current) return false;
+  write(key, data);
+  return true;
+}
+
+export async function putBinaryObject(key: string, buffer: Buffer) {
+  write(key, buffer.toString('base64'));
+}
@@ -0,0 +1,106 @@
+import { crawlPages, inScope } from '../page-crawl';
+import { createRobotsGuard } from '../robots';
+import { CrawlWarning, Scraper } from '../types';
+
+const SITE = 'https://acme.example/';
+
+/** page → links on it */
+const GRAPH: Record<string, string[]> = {
+  'https://acme.example/features': [
+    'https://acme.example/features/widgets?_cb=123',
+    'https://acme.example/features/analytics?utm_source=nav',
+    'https://acme.example/privacy',
+    'https://other.example/features',
+  ],
+  'https://acme.example/product': ['https://acme.example/features?_cb=999', 'https://acme.example/product/tour'],
+  'https://acme.example/features/widgets': ['https://acme.example/features/widgets/gallery'],
+};
+
+function fakeScraper(log: string[]): Scraper {
+  return {
+    name: 'http',
+    async scrape(url) {
+      log.push(url);
+      if (url.endsWith('/broken')) throw new Error('HTTP 500');
+      return { rawHtml: `<html>${url}</html>`, links: GRAPH[url] ?? [] };
+    },
+  };
+}
+
+const run = (seeds: string[], extra: Partial<Parameters<typeof crawlPages>[1]> = {}) => {
+  const log: string[] = [];
+  const warnings: CrawlWarning[] = [];
+  const result = crawlPages(seeds, {
+    siteUrl: SITE,
+    scraper: fakeScraper(log),
+    robots: createRobotsGuard({ enabled: false }),
+    maxDepth: 2,
+    maxPages: 10,
+    concurrency: 2,
+    warnings,
+    ...extra,
+  });
+  return { result, log, warnings };
+};
+
+test('follows links breadth-first without re-visiting canonical duplicates', async () => {
+  const { result, log, warnings } = run([
+    'https://acme.example/features',
+    'https://acme.example/product',
+    'https://acme.example/broken',
+  ]);
+  const pages = await result;
+
+  expect(log).toHaveLength(new Set(log).size);
+  expect(pages.map((p) => [p.url, p.depth])).toEqual([
+    ['https://acme.example/features', 1],
+    ['https://acme.example/product', 1],
+    ['https://acme.example/features/widgets', 2],
+    ['https://acme.example/features/analytics', 2],
+    ['https://acme.example/product/tour', 2],
+  ]);
+  expect(pages[2].discovery_path).toEqual([
+    'https://acme.example/',
+    'https://acme.example/features',
+    'https://acme.example/features/widgets',
+  ]);
+  expect(warnings).toEqual([{ step: 'page_scrape', url: 'https://acme.example/broken', message: 'HTTP 500' }]);
+});
+
+test('max_pages is shared across levels and max_depth 1 does not follow links', async () => {
+  const budget = await run(['https://acme.example/features', 'https://acme.example/product'], { maxPages: 3 }).result;
+  expect(budget.map((p) => p.depth)).toEqual([1, 1, 2]);
+
+  const shallow = await run(['https://acme.example/features'], { maxDepth: 1 }).result;
+  expect(shallow.map((p) => p.url)).toEqual(['https://acme.example/features']);
+});
+
+test('include/exclude globs scope the crawl', async () => {
+  const pages = await run(['https://acme.example/features', 'https://acme.example/product'], {
+    scope: { include_paths: ['/features*'], exclude_paths: ['/features/analytics'] },
+  }).result;
+  expect(pages.map((p) => p.url)).toEqual(['https://acme.example/features', 'https://acme.example/features/widgets']);
+
+  expect(inScope('https://www.acme.example/x', SITE)).toBe(true);
+  expect(inScope('https://blog.acme.example/x', SITE)).toBe(false);
+});
+
+test('failed pages are replaced by the next ranked link', async () => {
+  const { result, warnings } = run(
+    ['https://acme.example/broken', 'https://acme.example/features', 'https://acme.example/product'],
+    { maxDepth: 1, maxPages: 2 }
+  );
+  expect((await result).map((p) => p.url)).toEqual(['https://acme.example/features', 'https://acme.example/product']);
+  expect(warnings).toHaveLength(1);
+});
+
+test('budget deeper levels cannot use goes to the links that were skipped', async () => {
+  // none of these pages link anywhere, so levels 2 and 3 have nothing to scrape
+  const seeds = ['https://acme.example/a', 'https://acme.example/b', 'https://acme.example/c', 'https://acme.example/d'];
+  const pages = await run(seeds, { maxDepth: 3, maxPages: 3 }).result;
+  expect(pages.map((p) => [p.url, p.depth])).toEqual([
+    ['https://acme.example/a', 1],
+    ['https://acme.example/b', 1],
+    ['https://acme.example/c', 1],
+  ]);
+});
@@ -0,0 +1,39 @@
+import sharp from 'sharp';
+import { hammingDistance, hashImage, HASH_ALGORITHMS, isNearDuplicate } from '../phash';
+
+/** Horizontal gradient with a dark square – a stand-in "screenshot" */
+async function fixture(width: number, height: number, squareAt: number, invert = false): Promise<Buffer> {
+  const px = Buffer.alloc(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 3;
+      const inSquare =
+        x > width * squareAt && x < width * (squareAt + 0.3) && y > height * 0.3 && y < height * 0.6;
+      const ramp = Math.round((x / width) * 255);
+      px[i] = px[i + 1] = px[i + 2] = inSquare ? 10 : invert ? 255 - ramp : ramp;
+    }
+  }
+  return sharp(px, { raw: { width, height, channels: 3 } }).png().toBuffer();
+}
+
+test.each(HASH_ALGORITHMS)('%s: resized variant is a near duplicate, different image is not', async (algorithm) => {
+  const original = await hashImage(await fixture(640, 400, 0.1), algorithm);
+  const resized = await hashImage(await fixture(320, 200, 0.1), algorithm);
+  const other = await hashImage(await fixture(640, 400, 0.6, true), algorithm);
+
+  expect(original.algorithm).toBe(algorithm);
+  expect(original.hash).toMatch(/^[0-9a-f]{16}$/);
+  expect(hammingDistance(original.hash, resized.hash)).toBeLessThanOrEqual(4);
+  expect(isNearDuplicate(original, resized, 8)).toBe(true);
+  expect(isNearDuplicate(original, other, 8)).toBe(false);
+});
+
+test('undecodable bytes fall back to sha256 and only match exactly', async () => {
+  const html = Buffer.from('<html>404 not found</html>');
+  const a = await hashImage(html);
+  const b = await hashImage(Buffer.from('<html>500</html>'));
+
+  expect(a.algorithm).toBe('sha256');
+  expect(isNearDuplicate(a, await hashImage(html), 0)).toBe(true);
+  expect(isNearDuplicate(a, b, 64)).toBe(false);
+});
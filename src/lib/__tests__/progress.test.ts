@@ -0,0 +1,44 @@
+import { progressSse } from '../progress';
+import { JobRecord, ProgressEvent } from '../types';
+
+const event = (stage: ProgressEvent['stage'], step: number, counts: Record<string, number>): ProgressEvent => ({
+  stage,
+  step,
+  at: '2026-01-01T00:00:01.000Z',
+  elapsed_ms: 1000,
+  counts,
+});
+
+const job = (patch: Partial<JobRecord>): JobRecord => ({
+  job_id: 'job_1',
+  status: 'step_2',
+  source_url: 'https://acme.example',
+  request: { url: 'https://acme.example', force_refresh: false, max_pages: 3, max_depth: 1, max_images: 5, max_ai_images: 5 },
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:01.000Z',
+  progress: [event('homepage_scraped', 1, { links: 42 }), event('links_kept', 2, { kept: 3 })],
+  ...patch,
+});
+
+test('progressSse sends only unseen events, numbered from the start', () => {
+  const body = progressSse(job({}), 1);
+  expect(body).toBe(
+    [
+      'retry: 1000',
+      '',
+      'id: 2',
+      'event: progress',
+      `data: ${JSON.stringify(event('links_kept', 2, { kept: 3 }))}`,
+      '',
+      '',
+    ].join('\n')
+  );
+});
+
+test('progressSse waits with a comment, then ends with the final status', () => {
+  expect(progressSse(job({}), 2)).toBe('retry: 1000\n\n: waiting\n\n');
+
+  const body = progressSse(job({ status: 'failed', error: 'homepage blocked' }), 2);
+  expect(body).toContain('event: end\ndata: {"job_id":"job_1","status":"failed","error":"homepage blocked"}\n\n');
+  expect(body).not.toContain('event: progress');
+});
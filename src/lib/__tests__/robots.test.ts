@@ -0,0 +1,124 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { gzipSync } from 'zlib';
+import { createRobotsGuard, isAllowed, parseRobots, RobotsDisallowedError } from '../robots';
+import { discoverSitemapLinks, parseSitemap, sitemapCandidates } from '../sitemap';
+
+const ROBOTS = `
+User-agent: *
+Disallow: /admin
+Disallow: /*.pdf$
+Allow: /admin/screenshots/
+
+User-agent: saas-image-crawl
+User-agent: otherbot
+Disallow: /private
+Crawl-delay: 0.05
+
+Sitemap: SITEMAP_URL
+`;
+
+test('parseRobots picks the most specific group and collects sitemaps', () => {
+  const ours = parseRobots('User-agent: *\nDisallow: /\n\nUser-agent: saas-image-crawl\nDisallow: /private\nCrawl-delay: 2\nSitemap: https://a.example/s.xml');
+  expect(ours.rules).toEqual([{ allow: false, path: '/private' }]);
+  expect(ours.crawlDelay).toBe(2);
+  expect(ours.sitemaps).toEqual(['https://a.example/s.xml']);
+
+  const other = parseRobots('User-agent: *\nDisallow: /\n', 'somebot');
+  expect(isAllowed(other, 'https://a.example/features')).toBe(false);
+});
+
+test('isAllowed: longest match wins, wildcards and $ anchors', () => {
+  const robots = parseRobots(ROBOTS, 'generic');
+  expect(isAllowed(robots, 'https://a.example/features')).toBe(true);
+  expect(isAllowed(robots, 'https://a.example/admin/users')).toBe(false);
+  expect(isAllowed(robots, 'https://a.example/admin/screenshots/x.png')).toBe(true);
+  expect(isAllowed(robots, 'https://a.example/docs/guide.pdf')).toBe(false);
+  expect(isAllowed(robots, 'https://a.example/docs/guide.pdf?x=1')).toBe(true);
+});
+
+test('sitemap parsing and candidate selection', () => {
+  const index = parseSitemap(
+    '<?xml version="1.0"?><sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"><sitemap><loc>https://a.example/s1.xml</loc></sitemap></sitemapindex>'
+  );
+  expect(index).toEqual({ sitemaps: ['https://a.example/s1.xml'], urls: [] });
+
+  expect(
+    sitemapCandidates(
+      [
+        'https://www.a.example/integrations/slack',
+        'https://a.example/blog/post',
+        'https://a.example/blog/features',
+        'https://a.example/features',
+        'https://other.example/features',
+      ],
+      'https://a.example/'
+    )
+  ).toEqual(['https://a.example/features', 'https://www.a.example/integrations/slack']);
+});
+
+describe('against a live site', () => {
+  let server: http.Server;
+  let base: string;
+  const hits: { path: string; at: number }[] = [];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      hits.push({ path: req.url!, at: Date.now() });
+      if (req.url === '/robots.txt') {
+        res.end(ROBOTS.replace('SITEMAP_URL', `${base}/sitemap_index.xml`));
+      } else if (req.url === '/sitemap_index.xml') {
+        res.end(`<sitemapindex><sitemap><loc>${base}/pages.xml.gz</loc></sitemap></sitemapindex>`);
+      } else if (req.url === '/sitemap.xml') {
+        // 64 MB of zeros in well under 100 KB
+        res.end(gzipSync(Buffer.alloc(64 * 1024 * 1024)));
+      } else if (req.url === '/pages.xml.gz') {
+        res.writeHead(200, { 'Content-Type': 'application/gzip' });
+        res.end(gzipSync(`<urlset><url><loc>${base}/product/tour</loc></url><url><loc>${base}/about</loc></url></urlset>`));
+      } else {
+        res.end('ok');
+      }
+    });
+    await new Promise<void>((res) => server.listen(0, '127.0.0.1', res));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>((res) => server.close(() => res())));
+
+  test('follows sitemap indexes and gzip, honours disallow and crawl-delay', async () => {
+    const robots = createRobotsGuard({ enabled: true });
+
+    expect(await discoverSitemapLinks(`${base}/`, robots)).toEqual([`${base}/product/tour`]);
+    await expect(robots.check(`${base}/private/x`)).rejects.toBeInstanceOf(RobotsDisallowedError);
+
+    const before = hits.length;
+    await Promise.all([robots.check(`${base}/a`), robots.check(`${base}/b`)]);
+    expect(hits.length).toBe(before); // robots.txt fetched once
+    expect(hits.filter((h) => h.path === '/robots.txt')).toHaveLength(1);
+  });
+
+  test('crawl-delay spaces requests to the same origin', async () => {
+    const robots = createRobotsGuard({ enabled: true });
+    await robots.check(`${base}/a`);
+    const start = Date.now();
+    await robots.check(`${base}/b`);
+    await robots.check(`${base}/c`);
+    expect(Date.now() - start).toBeGreaterThanOrEqual(90);
+  });
+
+  test('resources skip the Crawl-delay that pages wait for', async () => {
+    const robots = createRobotsGuard({ enabled: true });
+    await robots.check(`${base}/a`);
+    const start = Date.now();
+    await Promise.all(Array.from({ length: 5 }, (_, i) => robots.check(`${base}/img/${i}.png`, { pace: false })));
+    expect(Date.now() - start).toBeLessThan(40);
+  });
+
+  test('gzip sitemaps that unpack past the size cap are skipped', async () => {
+    const info = jest.spyOn(console, 'info').mockImplementation(() => undefined);
+    // no robots.txt → /sitemap.xml
+    await expect(discoverSitemapLinks(`${base}/`, createRobotsGuard({ enabled: false }))).resolves.toEqual([]);
+    expect(info).toHaveBeenCalledWith(expect.stringMatching(/sitemap\.xml: unpacks to more than \d+ bytes/));
+    info.mockRestore();
+  });
+});
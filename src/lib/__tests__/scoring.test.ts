@@ -0,0 +1,51 @@
+import { parseScoreWeights, rankImages, scoreImage } from '../scoring';
+
+const screenshot = {
+  url: 'https://example.com/img/dashboard.png',
+  alt: 'Analytics dashboard',
+  source: 'img' as const,
+  position: { index: 0, inHero: true, aboveFold: true },
+  dimensions: { width: 1600, height: 1000 },
+  bytes: 300 * 1024,
+};
+
+const logo = {
+  url: 'https://example.com/img/acme-logo.png',
+  alt: 'Acme logo',
+  source: 'img' as const,
+  position: { index: 1, inHero: false, aboveFold: true },
+  dimensions: { width: 400, height: 400 },
+  bytes: 8 * 1024,
+};
+
+test('a large hero screenshot outranks a logo found before it', () => {
+  const ranked = rankImages([logo, screenshot]);
+
+  expect(ranked.map((i) => i.url)).toEqual([screenshot.url, logo.url]);
+  expect(ranked[0].score).toBeGreaterThan(0);
+  expect(ranked[1].score).toBeLessThan(0);
+  expect(ranked[1].reasons).toContainEqual(
+    expect.objectContaining({ factor: 'filename', points: -40 })
+  );
+});
+
+test('weights scale factors and 0 switches a factor off', () => {
+  const base = scoreImage(screenshot);
+  const doubled = scoreImage(screenshot, { size: 2 });
+  const noSize = scoreImage(screenshot, { size: 0 });
+
+  expect(doubled.score - base.score).toBe(30);
+  expect(noSize.reasons.map((r) => r.factor)).not.toContain('size');
+});
+
+test('missing data contributes no reasons', () => {
+  expect(scoreImage({ url: 'data:image/svg+xml;base64,AAAA' })).toEqual({ score: 0, reasons: [] });
+});
+
+test('parseScoreWeights rejects unknown factors and out-of-range values', () => {
+  expect(parseScoreWeights(undefined)).toBeUndefined();
+  expect(parseScoreWeights({ ai: 2, bytes: 0 })).toEqual({ ai: 2, bytes: 0 });
+  expect(() => parseScoreWeights({ colour: 1 })).toThrow(/unknown factor/);
+  expect(() => parseScoreWeights({ size: -1 })).toThrow(/between 0 and 10/);
+  expect(() => parseScoreWeights([1])).toThrow(/object/);
+});
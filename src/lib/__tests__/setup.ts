@@ -0,0 +1,9 @@
+/* -----------------------------------------------------------
+   Runs before every test file (jest.config.js setupFiles)
+   -----------------------------------------------------------
+   The fixture servers listen on 127.0.0.1, so private
+   addresses are allowed. Tests of the address rules
+   themselves delete ALLOW_PRIVATE_URLS first.
+----------------------------------------------------------- */
+
+process.env.ALLOW_PRIVATE_URLS = 'true';
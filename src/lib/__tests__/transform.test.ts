@@ -0,0 +1,57 @@
+import sharp from 'sharp';
+import { parseTransformOptions, transformImage } from '../transform';
+
+const solid = (width: number, height: number) =>
+  sharp({ create: { width, height, channels: 3, background: '#3366cc' } });
+
+const SVG = Buffer.from('<svg xmlns="http://www.w3.org/2000/svg" width="400" height="300"><rect width="400" height="300"/></svg>');
+
+test('strips EXIF from a JPEG but keeps the format', async () => {
+  const input = await solid(400, 300).withExif({ IFD0: { Copyright: 'Acme' } }).jpeg().toBuffer();
+  expect((await sharp(input).metadata()).exif).toBeDefined();
+
+  const out = await transformImage(input);
+  expect(out).toMatchObject({ ext: 'jpg', contentType: 'image/jpeg', width: 400, height: 300, thumbnails: [] });
+  expect((await sharp(out.buffer).metadata()).exif).toBeUndefined();
+});
+
+test('leaves an image that needs nothing byte-for-byte', async () => {
+  const input = await solid(400, 300).png().toBuffer();
+  const out = await transformImage(input);
+  expect(out.buffer).toBe(input);
+  expect(out.contentType).toBe('image/png');
+});
+
+test('converts, caps the width and builds thumbnails smaller than the result', async () => {
+  const input = await solid(1200, 600).png().toBuffer();
+  const out = await transformImage(input, { format: 'webp', max_width: 800, thumbnails: [2000, 200] });
+
+  expect(out).toMatchObject({ ext: 'webp', contentType: 'image/webp', width: 800, height: 400 });
+  expect((await sharp(out.buffer).metadata()).format).toBe('webp');
+  expect(out.thumbnails.map((t) => [t.width, t.height, t.contentType])).toEqual([[200, 100, 'image/webp']]);
+});
+
+test('uploads SVGs as vectors unless asked to rasterise', async () => {
+  const vector = await transformImage(SVG, { format: 'jpeg' });
+  expect(vector).toMatchObject({ ext: 'svg', contentType: 'image/svg+xml', width: 400, height: 300 });
+  expect(vector.buffer).toBe(SVG);
+
+  const raster = await transformImage(SVG, { rasterize_svg: true });
+  expect(raster).toMatchObject({ ext: 'png', contentType: 'image/png', width: 400 });
+});
+
+test('rejects bytes that are not an image', async () => {
+  await expect(transformImage(Buffer.from('<html>Not found</html>'))).rejects.toThrow();
+});
+
+test('parseTransformOptions validates', () => {
+  expect(parseTransformOptions(undefined)).toBeUndefined();
+  expect(parseTransformOptions({ format: 'avif', thumbnails: [320, 640] })).toEqual({
+    format: 'avif',
+    thumbnails: [320, 640],
+  });
+  expect(() => parseTransformOptions({ format: 'bmp' })).toThrow(/transform.format/);
+  expect(() => parseTransformOptions({ max_width: 10 })).toThrow(/max_width/);
+  expect(() => parseTransformOptions({ thumbnails: [100, 200, 300, 400, 500, 600] })).toThrow(/up to 5/);
+  expect(() => parseTransformOptions({ quality: 80 })).toThrow(/unknown option quality/);
+});
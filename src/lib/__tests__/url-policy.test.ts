@@ -0,0 +1,98 @@
+import http from 'http';
+import axios from 'axios';
+import { AddressInfo } from 'net';
+import { checkUrl, isBlockedAddress, parseUrlPolicy, requestGuard, UrlBlockedError } from '../url-policy';
+import { toCrawlError } from '../errors';
+
+let server: http.Server;
+let port: number;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    if (req.url === '/hop') {
+      res.writeHead(302, { Location: `http://localhost:${port}/final` }).end();
+    } else {
+      res.end('ok');
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  port = (server.address() as AddressInfo).port;
+});
+
+afterAll(() => new Promise((resolve) => server.close(resolve)));
+// setup.ts lifts the address rules these tests are about
+beforeEach(() => {
+  delete process.env.ALLOW_PRIVATE_URLS;
+});
+
+test.each([
+  ['127.0.0.1', true],
+  ['10.1.2.3', true],
+  ['172.20.0.1', true],
+  ['192.168.1.1', true],
+  ['169.254.169.254', true],
+  ['100.64.0.1', true],
+  ['0.0.0.0', true],
+  ['::1', true],
+  ['fd00:ec2::254', true],
+  ['fe80::1', true],
+  ['::ffff:127.0.0.1', true],
+  ['::ffff:a9fe:a9fe', true],
+  ['8.8.8.8', false],
+  ['172.32.0.1', false],
+  ['2606:4700:4700::1111', false],
+  ['::ffff:8.8.8.8', false],
+])('isBlockedAddress(%s) = %s', (ip, blocked) => {
+  expect(isBlockedAddress(ip)).toBe(blocked);
+});
+
+test.each([
+  ['ftp://acme.example/', 'scheme ftp:'],
+  ['http://user:pw@acme.example/', 'credentials in URL'],
+  ['http://169.254.169.254/latest/meta-data/', 'private address'],
+  ['http://[::1]:8080/', 'private address'],
+  ['http://metadata.google.internal/', 'internal hostname'],
+  ['http://LOCALHOST./', 'internal hostname'],
+])('checkUrl blocks %s (%s)', (url, reason) => {
+  expect(() => checkUrl(url)).toThrow(new UrlBlockedError(url, reason));
+});
+
+test('checkUrl applies allow and deny lists to the domain and its subdomains', () => {
+  const policy = { allow_domains: ['acme.example'], deny_domains: ['ads.acme.example'] };
+  expect(checkUrl('https://cdn.acme.example/a.png', policy).hostname).toBe('cdn.acme.example');
+  expect(() => checkUrl('https://x.ads.acme.example/a.png', policy)).toThrow('denied domain');
+  expect(() => checkUrl('https://notacme.example/', policy)).toThrow('domain not allowed');
+});
+
+test('ALLOW_PRIVATE_URLS lifts the address check but not the domain lists', () => {
+  process.env.ALLOW_PRIVATE_URLS = 'true';
+  expect(() => checkUrl('http://127.0.0.1/')).not.toThrow();
+  expect(() => checkUrl('http://127.0.0.1/', { allow_domains: ['acme.example'] })).toThrow('domain not allowed');
+});
+
+test('requestGuard refuses hosts that resolve to private addresses', async () => {
+  const err = await axios.get(`http://localhost:${port}/`, requestGuard()).catch((e) => e);
+  expect(err.cause).toBeInstanceOf(UrlBlockedError);
+  expect(toCrawlError(err, 'homepage').code).toBe('URL_BLOCKED');
+});
+
+test('requestGuard re-checks every redirect hop', async () => {
+  process.env.ALLOW_PRIVATE_URLS = 'true';
+  const ok = await axios.get(`http://127.0.0.1:${port}/hop`, requestGuard());
+  expect(ok.data).toBe('ok');
+
+  const err = await axios
+    .get(`http://127.0.0.1:${port}/hop`, requestGuard({ deny_domains: ['localhost'] }))
+    .catch((e) => e);
+  expect(toCrawlError(err).code).toBe('URL_BLOCKED');
+});
+
+test('parseUrlPolicy normalises domains and rejects bad input', () => {
+  expect(parseUrlPolicy({ allow_domains: ['*.Acme.Example.', 'cdn.acme.example'] })).toEqual({
+    allow_domains: ['acme.example', 'cdn.acme.example'],
+  });
+  expect(parseUrlPolicy(undefined)).toBeUndefined();
+  expect(() => parseUrlPolicy({ allow: ['acme.example'] })).toThrow('unknown option allow');
+  expect(() => parseUrlPolicy({ deny_domains: ['https://acme.example/'] })).toThrow('invalid domain');
+  expect(() => parseUrlPolicy({ deny_domains: 'acme.example' })).toThrow('must be a list');
+});
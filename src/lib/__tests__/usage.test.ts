@@ -0,0 +1,93 @@
+import { CrawlError } from '../errors';
+import { errorResponse } from '../http';
+import { apiKeyFrom, authenticate, createTenant, Tenant } from '../tenants';
+import { assertQuota, checkRateLimit, getUsage, MonthlyUsage, releaseCrawls, remainingQuota, reserveCrawls } from '../usage';
+
+/* In-memory S3 with ETags, enough for the conditional-put loops */
+const store = new Map<string, { data: unknown; etag: string }>();
+let version = 0;
+
+jest.mock('../s3', () => ({
+  sha256: (text: string) => text,
+  getObject: async (key: string) => store.get(key)?.data,
+  getObjectVersioned: async (key: string) => store.get(key),
+  putObject: async (key: string, data: unknown) => void store.set(key, { data, etag: String(++version) }),
+  putObjectIf: async (key: string, data: unknown, { ifMatch, ifNoneMatch }: { ifMatch?: string; ifNoneMatch?: string }) => {
+    const current = store.get(key);
+    if ((ifNoneMatch && current) || (ifMatch && current?.etag !== ifMatch)) return false;
+    store.set(key, { data, etag: String(++version) });
+    return true;
+  },
+}));
+
+const tenant: Tenant = {
+  tenant_id: 'acme',
+  limits: { rate_per_minute: 2, monthly_crawls: 3, monthly_pages: 10, monthly_ai_images: 5 },
+  created_at: '2026-01-01T00:00:00.000Z',
+};
+
+const usage = (patch: Partial<MonthlyUsage>): MonthlyUsage => ({ month: '2026-01', crawls: 0, pages: 0, ai_images: 0, ...patch });
+
+beforeEach(() => store.clear());
+
+test('apiKeyFrom reads X-Api-Key or a Bearer token', () => {
+  expect(apiKeyFrom({ 'x-api-key': ' ick_abc ' })).toBe('ick_abc');
+  expect(apiKeyFrom({ authorization: 'Bearer ick_def' })).toBe('ick_def');
+  expect(apiKeyFrom({ authorization: 'Basic dXNlcjpwdw==' })).toBeUndefined();
+  expect(apiKeyFrom()).toBeUndefined();
+});
+
+test('an unknown API key is not remembered, so a key issued next works at once', async () => {
+  const event = { headers: { 'x-api-key': 'ick_fresh' } };
+  await expect(authenticate(event)).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+
+  await createTenant('fresh');
+  store.set('api-keys/ick_fresh.json', { data: { tenant_id: 'fresh', created_at: '2026-01-01' }, etag: String(++version) });
+  await expect(authenticate(event)).resolves.toMatchObject({ tenant_id: 'fresh' });
+});
+
+test('remainingQuota never goes negative', () => {
+  expect(remainingQuota(tenant, usage({ crawls: 1, pages: 12, ai_images: 5 }))).toEqual({ crawls: 2, pages: 0, ai_images: 0 });
+});
+
+test('assertQuota throws QUOTA_EXCEEDED with a Retry-After until next month', () => {
+  expect(() => assertQuota(tenant, usage({ crawls: 2 }), { crawls: 1 })).not.toThrow();
+
+  let error: CrawlError | undefined;
+  try {
+    assertQuota(tenant, usage({ crawls: 2 }), { crawls: 2 });
+  } catch (err) {
+    error = err as CrawlError;
+  }
+  expect(error?.code).toBe('QUOTA_EXCEEDED');
+  expect(error?.retryAfter).toBeGreaterThan(0);
+
+  const response = errorResponse(error!) as { statusCode: number; headers: Record<string, string>; body: string };
+  expect(response.statusCode).toBe(429);
+  expect(response.headers['Retry-After']).toBe(String(error!.retryAfter));
+  expect(JSON.parse(response.body)).toMatchObject({ code: 'QUOTA_EXCEEDED', retry_after: error!.retryAfter });
+});
+
+test('reserveCrawls counts jobs until the monthly quota is used up', async () => {
+  await reserveCrawls(tenant, 2);
+  expect((await reserveCrawls(tenant, 1)).crawls).toBe(3);
+  await expect(reserveCrawls(tenant, 1)).rejects.toMatchObject({ code: 'QUOTA_EXCEEDED' });
+});
+
+test('releaseCrawls gives reserved crawls back, never below zero', async () => {
+  await reserveCrawls(tenant, 3);
+  await releaseCrawls('acme', 2);
+  expect((await getUsage('acme')).crawls).toBe(1);
+  await expect(reserveCrawls(tenant, 2)).resolves.toMatchObject({ crawls: 3 });
+
+  await releaseCrawls('acme', 5);
+  expect((await getUsage('acme')).crawls).toBe(0);
+});
+
+test('checkRateLimit allows rate_per_minute requests per minute window', async () => {
+  const now = new Date('2026-01-01T12:00:45.000Z');
+  await checkRateLimit(tenant, now);
+  await checkRateLimit(tenant, now);
+  await expect(checkRateLimit(tenant, now)).rejects.toMatchObject({ code: 'RATE_LIMITED', retryAfter: 15 });
+  await expect(checkRateLimit(tenant, new Date('2026-01-01T12:01:00.000Z'))).resolves.toBeUndefined();
+});
@@ -0,0 +1,123 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createTenant } from '../tenants';
+import { getDeliveries, jobWebhookLogKey, redeliverWebhook, sendWebhook, signWebhook, verifyWebhookSignature } from '../webhook';
+import { store } from './memory-s3';
+
+jest.mock('../s3', () => require('./memory-s3'));
+
+const SECRET = 'whsec_test';
+
+let server: http.Server;
+let base: string;
+let failuresLeft = 0;
+const received: { headers: http.IncomingHttpHeaders; body: string }[] = [];
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (c) => (body += c));
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      if (failuresLeft-- > 0) {
+        res.writeHead(503).end();
+      } else {
+        res.writeHead(204).end();
+      }
+    });
+  });
+  await new Promise<void>((res) => server.listen(0, '127.0.0.1', res));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>((res) => server.close(() => res())));
+
+beforeEach(() => {
+  store.clear();
+  received.length = 0;
+  failuresLeft = 0;
+  process.env.WEBHOOK_SECRET = SECRET;
+});
+
+test('signatures verify only for the same secret, body and a recent timestamp', () => {
+  const now = Date.UTC(2026, 0, 1);
+  const ts = now / 1000;
+  const body = '{"event":"job.completed"}';
+  const signature = signWebhook(SECRET, ts, body);
+
+  expect(signature).toMatch(/^v1=[0-9a-f]{64}$/);
+  expect(verifyWebhookSignature(SECRET, { timestamp: ts, signature }, body, { now })).toBe(true);
+  expect(verifyWebhookSignature('other', { timestamp: ts, signature }, body, { now })).toBe(false);
+  expect(verifyWebhookSignature(SECRET, { timestamp: ts, signature }, body + ' ', { now })).toBe(false);
+  expect(verifyWebhookSignature(SECRET, { timestamp: ts, signature }, body, { now: now + 301_000 })).toBe(false);
+});
+
+test('sendWebhook posts a signed, typed payload', async () => {
+  const delivery = await sendWebhook(`${base}/hook`, 'job.started', { job_id: 'j1' });
+
+  expect(delivery).toMatchObject({ event: 'job.started', status: 'delivered' });
+  expect(delivery.attempts).toEqual([expect.objectContaining({ status_code: 204 })]);
+
+  const [{ headers, body }] = received;
+  expect(JSON.parse(body)).toEqual({ event: 'job.started', job_id: 'j1' });
+  expect(headers['x-webhook-event']).toBe('job.started');
+  expect(headers['x-webhook-id']).toBe(delivery.delivery_id);
+  expect(
+    verifyWebhookSignature(
+      SECRET,
+      { timestamp: headers['x-webhook-timestamp'] as string, signature: headers['x-webhook-signature'] as string },
+      body
+    )
+  ).toBe(true);
+});
+
+test('sendWebhook records every attempt and never throws', async () => {
+  failuresLeft = 1;
+  const retried = await sendWebhook(`${base}/hook`, 'job.progress', { step: 2 }, { backoffMs: 10 });
+  expect(retried.status).toBe('delivered');
+  expect(retried.attempts.map((a) => a.status_code)).toEqual([503, 204]);
+
+  failuresLeft = 5;
+  const failed = await sendWebhook(`${base}/hook`, 'job.failed', {}, { retries: 2, backoffMs: 10 });
+  expect(failed.status).toBe('failed');
+  expect(failed.attempts).toHaveLength(2);
+  expect(failed.attempts[1].error).toMatch(/503/);
+});
+
+const signatureOf = ({ headers, body }: { headers: http.IncomingHttpHeaders; body: string }, secret: string) =>
+  verifyWebhookSignature(
+    secret,
+    { timestamp: headers['x-webhook-timestamp'] as string, signature: headers['x-webhook-signature'] as string },
+    body
+  );
+
+test("a tenant's webhooks are signed with its own secret", async () => {
+  const tenant = await createTenant('acme');
+  expect(tenant.webhook_secret).toMatch(/^whsec_/);
+
+  await sendWebhook(`${base}/hook`, 'job.started', { job_id: 'j1' }, { tenantId: 'acme' });
+  expect(signatureOf(received[0], tenant.webhook_secret!)).toBe(true);
+  expect(signatureOf(received[0], SECRET)).toBe(false);
+});
+
+test('the log keeps a summary per delivery and redelivery resends the stored body', async () => {
+  const logKey = jobWebhookLogKey('j1');
+  failuresLeft = 1;
+  const first = await sendWebhook(`${base}/hook`, 'job.completed', { job_id: 'j1', images: ['x'] }, { retries: 1, logKey });
+  expect(first.status).toBe('failed');
+
+  const [logged] = await getDeliveries(logKey);
+  expect(logged).toEqual(first);
+  expect(logged).not.toHaveProperty('payload');
+  expect(store.get(`jobs/j1/webhooks/${first.delivery_id}.json`)?.data).toEqual({
+    event: 'job.completed',
+    job_id: 'j1',
+    images: ['x'],
+  });
+
+  const again = await redeliverWebhook(logKey, first.delivery_id);
+  expect(again).toMatchObject({ status: 'delivered', redelivery_of: first.delivery_id });
+  expect(received[1].body).toBe(received[0].body);
+  expect(await getDeliveries(logKey)).toHaveLength(2);
+  expect(await redeliverWebhook(logKey, 'whd_missing')).toBeUndefined();
+});
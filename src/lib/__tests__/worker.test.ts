@@ -0,0 +1,76 @@
+import * as s3 from './memory-s3';
+import { createJob, getJob, updateJob } from '../jobs';
+import { runCrawl } from '../pipeline';
+import { ProgressEvent } from '../types';
+import { sendWebhook } from '../webhook';
+import { runJob } from '../worker';
+
+jest.mock('../s3', () => require('./memory-s3'));
+jest.mock('../lambda', () => ({ invokeAsync: jest.fn() }));
+jest.mock('../pipeline', () => ({
+  STEP_NAMES: {},
+  runCrawl: jest.fn(async () => ({ images: [], pages: [], warnings: [], timings: {}, usage: { pages: 0, ai_images: 0 } })),
+}));
+jest.mock('../webhook', () => ({ ...jest.requireActual('../webhook'), sendWebhook: jest.fn(async () => ({})) }));
+
+const request = { url: 'https://acme.example', force_refresh: false, max_pages: 3, max_depth: 1, max_images: 5, max_ai_images: 5 };
+
+afterEach(() => jest.restoreAllMocks());
+
+test('runJob completes a queued job', async () => {
+  await createJob('job_ok', request);
+  await runJob('job_ok');
+  expect(await getJob('job_ok')).toMatchObject({ status: 'completed', images: [] });
+});
+
+test('runJob marks the job failed when recording the start fails', async () => {
+  await createJob('job_flaky', request);
+  jest.spyOn(s3, 'putObject').mockRejectedValueOnce(new Error('S3 unavailable'));
+
+  await expect(runJob('job_flaky')).resolves.toBeUndefined();
+  expect(await getJob('job_flaky')).toMatchObject({ status: 'failed', error: 'S3 unavailable' });
+});
+
+test('a retry appends its progress and progress webhooks never hold up the job', async () => {
+  const event = (stage: ProgressEvent['stage'], step: number): ProgressEvent => ({
+    stage,
+    step,
+    at: '2026-01-01T00:00:00.000Z',
+    elapsed_ms: 10,
+    counts: {},
+  });
+  await createJob('job_retry', { ...request, webhook_url: 'https://hooks.example' });
+  await updateJob('job_retry', { attempts: 1, progress: [{ ...event('homepage_scraped', 1), attempt: 1 }] });
+
+  // the receiver sits on progress events until the gate opens
+  let open!: () => void;
+  const gate = new Promise<void>((resolve) => (open = resolve));
+  (sendWebhook as jest.Mock).mockImplementation(async (_url, name) => {
+    if (name === 'job.progress') await gate;
+    return {};
+  });
+  (runCrawl as jest.Mock).mockImplementationOnce(async (_request, { onProgress }) => {
+    await onProgress(event('homepage_scraped', 1));
+    await onProgress(event('links_kept', 2));
+    return { images: [], pages: [], warnings: [], timings: {}, usage: { pages: 0, ai_images: 0 } };
+  });
+
+  const run = runJob('job_retry');
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  const job = await getJob('job_retry');
+  expect(job).toMatchObject({ status: 'completed', attempts: 2 });
+  expect(job?.progress?.map((e) => [e.stage, e.attempt])).toEqual([
+    ['homepage_scraped', 1],
+    ['homepage_scraped', 2],
+    ['links_kept', 2],
+  ]);
+
+  open();
+  await run;
+  expect((sendWebhook as jest.Mock).mock.calls.map(([, name]) => name)).toEqual([
+    'job.started',
+    'job.progress',
+    'job.progress',
+    'job.completed',
+  ]);
+});
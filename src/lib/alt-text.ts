@@ -0,0 +1,153 @@
+/* -----------------------------------------------------------
+   Alt-text options (request `alt_text`) and prompt building
+   -----------------------------------------------------------
+   Step 5 writes one alt text per requested language, capped at
+   `max_length` characters, optionally with a caption and a
+   title. Brand and page context come from scraped metadata.
+----------------------------------------------------------- */
+
+export type AltTextTone = 'descriptive' | 'marketing' | 'accessibility';
+
+export const ALT_TEXT_TONES: AltTextTone[] = ['descriptive', 'marketing', 'accessibility'];
+
+export interface AltTextOptions {
+  /** BCP-47 codes; the first one fills `alt` / `caption` / `title` */
+  languages: string[];
+  /** Characters per alt text */
+  max_length: number;
+  tone: AltTextTone;
+  /** Also write a one-sentence caption */
+  caption: boolean;
+  /** Also write a short title */
+  title: boolean;
+}
+
+export const DEFAULT_ALT_TEXT_OPTIONS: AltTextOptions = {
+  languages: ['en'],
+  max_length: 125,
+  tone: 'marketing',
+  caption: false,
+  title: false,
+};
+
+const MAX_LANGUAGES = 5;
+const MIN_LENGTH = 20;
+const MAX_LENGTH = 500;
+/** Caption / title caps, independent of `max_length` */
+export const CAPTION_MAX_LENGTH = 200;
+export const TITLE_MAX_LENGTH = 70;
+
+const LANGUAGE_RE = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+
+/** Text written for one image in one language */
+export interface AltText {
+  alt: string;
+  caption?: string;
+  title?: string;
+}
+
+/** What we know about the page an image came from */
+export interface PageContext {
+  brand?: string;
+  title?: string;
+  description?: string;
+}
+
+const str = (v: unknown) => (typeof v === 'string' && v.trim() ? v.trim() : undefined);
+
+/**
+ * Brand and page description from scraper metadata (Firecrawl and the HTTP
+ * scraper use the same keys). `brand` prefers og:site_name, else the last
+ * part of "Page – Brand" style titles.
+ */
+export function pageContext(metadata?: Record<string, unknown>, brand?: string): PageContext {
+  const title = str(metadata?.ogTitle) ?? str(metadata?.title);
+  const siteName = str(metadata?.ogSiteName);
+  const titleParts = str(metadata?.title)?.split(/\s+[|–—-]\s+/);
+  return {
+    brand: brand ?? siteName ?? (titleParts && titleParts.length > 1 ? titleParts[titleParts.length - 1] : undefined),
+    title,
+    description: str(metadata?.ogDescription) ?? str(metadata?.description),
+  };
+}
+
+/** Cut at a word boundary so the result fits `max` characters. */
+export function clipText(text: string, max: number): string {
+  const t = text.trim().replace(/\s+/g, ' ');
+  if (t.length <= max) return t;
+  const cut = t.slice(0, max + 1);
+  const space = cut.lastIndexOf(' ');
+  return (space > max / 2 ? cut.slice(0, space) : t.slice(0, max)).replace(/[\s,;:–-]+$/, '');
+}
+
+const TONE_INSTRUCTIONS: Record<AltTextTone, string> = {
+  descriptive: 'Describe plainly what the image shows.',
+  marketing: 'Describe what the image shows in a way that highlights the product, as a marketer would.',
+  accessibility:
+    'Follow WCAG alt-text practice: describe only what is visible and relevant, no marketing language, ' +
+    'do not start with "image of" or "picture of".',
+};
+
+/** The instruction text for one image. */
+export function altTextPrompt(
+  opts: AltTextOptions,
+  page: PageContext = {},
+  hint?: string
+): string {
+  const fields = ['alt', opts.caption && 'caption', opts.title && 'title'].filter(Boolean).join(', ');
+  const lines = [
+    'You are a SaaS marketing expert writing alt text for an image on a company website.',
+    TONE_INSTRUCTIONS[opts.tone],
+    `Write ${fields} in each of these languages: ${opts.languages.join(', ')}.`,
+    `Each alt text must be at most ${opts.max_length} characters.`,
+    opts.caption && `A caption is one sentence of at most ${CAPTION_MAX_LENGTH} characters.`,
+    opts.title && `A title is at most ${TITLE_MAX_LENGTH} characters.`,
+    page.brand && `Brand: ${page.brand}`,
+    page.title && `Page: ${page.title}`,
+    page.description && `Page description: ${page.description}`,
+    hint && `Existing alt text / nearby text: ${hint}`,
+    'Return {"texts": [{"language": "…", …}]} with one entry per language.',
+  ];
+  return lines.filter(Boolean).join('\n');
+}
+
+/** Validate the `alt_text` request option; throws with a readable message. */
+export function parseAltTextOptions(raw: unknown): Partial<AltTextOptions> | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw !== 'object' || Array.isArray(raw)) throw new Error('alt_text must be an object');
+
+  const { languages, max_length, tone, caption, title, ...rest } = raw as Record<string, unknown>;
+  const unknown = Object.keys(rest);
+  if (unknown.length) throw new Error(`alt_text: unknown option ${unknown.join(', ')}`);
+
+  const out: Partial<AltTextOptions> = {};
+  if (languages !== undefined) {
+    if (
+      !Array.isArray(languages) ||
+      languages.length === 0 ||
+      languages.length > MAX_LANGUAGES ||
+      !languages.every((l) => typeof l === 'string' && LANGUAGE_RE.test(l))
+    ) {
+      throw new Error(`alt_text.languages must be 1–${MAX_LANGUAGES} language codes such as "en" or "pt-BR"`);
+    }
+    out.languages = [...new Set(languages as string[])];
+  }
+  if (max_length !== undefined) {
+    if (!Number.isInteger(max_length) || (max_length as number) < MIN_LENGTH || (max_length as number) > MAX_LENGTH) {
+      throw new Error(`alt_text.max_length must be an integer between ${MIN_LENGTH} and ${MAX_LENGTH}`);
+    }
+    out.max_length = max_length as number;
+  }
+  if (tone !== undefined) {
+    if (!(ALT_TEXT_TONES as unknown[]).includes(tone)) {
+      throw new Error(`alt_text.tone must be one of ${ALT_TEXT_TONES.join(', ')}`);
+    }
+    out.tone = tone as AltTextTone;
+  }
+  for (const [key, value] of [['caption', caption], ['title', title]] as const) {
+    if (value === undefined) continue;
+    if (typeof value !== 'boolean') throw new Error(`alt_text.${key} must be a boolean`);
+    out[key] = value;
+  }
+  return out;
+}
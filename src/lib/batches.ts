@@ -0,0 +1,184 @@
+import { getObject, getObjectVersioned, putObject, putObjectIf } from './s3';
+import { mapLimit } from './concurrency';
+import { getJob } from './jobs';
+import { invalidRequest } from './errors';
+import { recordPrefix } from './tenants';
+import { batchWebhookLogKey, sendWebhook } from './webhook';
+import { BatchRecord, JobRecord } from './types';
+
+/* -----------------------------------------------------------
+   Batches: many per-URL jobs submitted together
+   -----------------------------------------------------------
+   Every job finishes on its own worker and records its final
+   status on the batch; the batch record therefore has many
+   writers and is updated with ETag-conditional puts.
+----------------------------------------------------------- */
+
+/** URLs accepted per POST /crawl/batch */
+export const MAX_BATCH_URLS = 500;
+
+/** Job records read at once when building the combined result */
+const RESULT_CONCURRENCY = 10;
+/** Conditional-put attempts before giving up on a contended record */
+const UPDATE_ATTEMPTS = 20;
+
+const batchDir = (batchId: string, tenantId?: string) => `${recordPrefix(tenantId)}batches/${batchId}`;
+const batchKey = (batchId: string, tenantId?: string) => `${batchDir(batchId, tenantId)}.json`;
+const resultsKey = (batchId: string, tenantId?: string) => `${batchDir(batchId, tenantId)}/results.json`;
+
+export const newBatchId = () =>
+  `batch_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+
+/** Persist a fresh batch; fails if the id is taken (per tenant). */
+export async function createBatch(
+  batchId: string,
+  jobIds: string[],
+  webhookUrl?: string,
+  tenantId?: string
+): Promise<BatchRecord> {
+  const now = new Date().toISOString();
+  const batch: BatchRecord = {
+    batch_id: batchId,
+    status: 'running',
+    ...(tenantId ? { tenant_id: tenantId } : {}),
+    ...(webhookUrl ? { webhook_url: webhookUrl } : {}),
+    job_ids: jobIds,
+    finished: {},
+    created_at: now,
+    updated_at: now,
+  };
+  if (!(await putObjectIf(batchKey(batchId, tenantId), batch, { ifNoneMatch: '*' }))) {
+    throw invalidRequest(`batch ${batchId} already exists`, 'batch_id');
+  }
+  return batch;
+}
+
+/** Load one of a tenant's batches; undefined if it does not exist (or belongs to another tenant). */
+export const getBatch = (batchId: string, tenantId?: string) => getObject<BatchRecord>(batchKey(batchId, tenantId));
+
+/**
+ * Record a finished job on its batch. Returns the batch record if this call
+ * finished the batch (exactly one caller sees that), else undefined.
+ * Safe to repeat for the same job (Lambda retries).
+ */
+export async function recordBatchJob(
+  batchId: string,
+  jobId: string,
+  status: 'completed' | 'failed',
+  tenantId?: string
+): Promise<BatchRecord | undefined> {
+  for (let i = 0; i < UPDATE_ATTEMPTS; i++) {
+    const current = await getObjectVersioned<BatchRecord>(batchKey(batchId, tenantId));
+    if (!current) throw new Error(`batch ${batchId} not found`);
+
+    const batch = current.data;
+    if (batch.finished[jobId] === status) return undefined; // already recorded
+
+    const now = new Date().toISOString();
+    const finished = { ...batch.finished, [jobId]: status };
+    const done = Object.keys(finished).length >= batch.job_ids.length;
+    const next: BatchRecord = {
+      ...batch,
+      finished,
+      updated_at: now,
+      ...(done ? { status: 'completed', completed_at: batch.completed_at ?? now } : {}),
+    };
+
+    if (await putObjectIf(batchKey(batchId, tenantId), next, { ifMatch: current.etag })) {
+      return done && batch.status !== 'completed' ? next : undefined;
+    }
+    // another job wrote in between – back off a little and re-read
+    await new Promise((resolve) => setTimeout(resolve, 50 + Math.random() * 200));
+  }
+  throw new Error(`batch ${batchId}: too much contention recording ${jobId}`);
+}
+
+/**
+ * Record a finished job on its batch; the job that finishes the batch
+ * snapshots the combined results and sends the batch webhook. Never throws.
+ */
+export async function finishBatchJob(
+  batchId: string,
+  jobId: string,
+  status: 'completed' | 'failed',
+  tenantId?: string
+) {
+  try {
+    const batch = await recordBatchJob(batchId, jobId, status, tenantId);
+    if (!batch) return;
+
+    console.log('Batch completed:', batchId);
+    const results = await storeBatchResults(batch);
+    if (batch.webhook_url) {
+      await sendWebhook(batch.webhook_url, 'batch.completed', { ...batchView(batch), results }, {
+        logKey: batchWebhookLogKey(batchId, tenantId),
+        tenantId,
+      });
+    }
+  } catch (err) {
+    console.error('Failed to update batch', batchId, err);
+  }
+}
+
+/** Aggregate progress – what GET /crawl/batch/{batch_id} returns. */
+export function batchView(batch: BatchRecord) {
+  const statuses = Object.values(batch.finished);
+  const completed = statuses.filter((s) => s === 'completed').length;
+  const failed = statuses.length - completed;
+  const { finished, webhook_url, tenant_id, ...rest } = batch;
+  return {
+    ...rest,
+    total: batch.job_ids.length,
+    completed,
+    failed,
+    pending: batch.job_ids.length - statuses.length,
+  };
+}
+
+/** One entry of the combined result document */
+export function batchEntry(jobId: string, job?: JobRecord) {
+  if (!job) return { job_id: jobId, status: 'missing' as const };
+  return {
+    job_id: job.job_id,
+    source_url: job.source_url,
+    status: job.status,
+    ...(job.images ? { images: job.images } : {}),
+    ...(job.warnings?.length ? { warnings: job.warnings } : {}),
+    ...(job.error ? { error: job.error, error_step: job.error_step } : {}),
+  };
+}
+
+/**
+ * Combined results of every job. Finished batches are served from the
+ * snapshot written on completion; running ones are read live.
+ */
+export async function batchResults(batch: BatchRecord) {
+  if (batch.status === 'completed') {
+    const stored = await getObject<ReturnType<typeof batchEntry>[]>(resultsKey(batch.batch_id, batch.tenant_id));
+    if (stored) return stored;
+  }
+  return mapLimit(batch.job_ids, RESULT_CONCURRENCY, async (jobId) =>
+    batchEntry(jobId, await getJob(jobId, batch.tenant_id))
+  );
+}
+
+/** Snapshot the combined results once the batch has finished. */
+export async function storeBatchResults(batch: BatchRecord) {
+  const results = await batchResults({ ...batch, status: 'running' });
+  await putObject(resultsKey(batch.batch_id, batch.tenant_id), results);
+  return results;
+}
+
+/**
+ * URLs from a CSV document: first column of each row; blank lines, `#`
+ * comments and a `url` header row are skipped.
+ */
+export function parseUrlCsv(csv: string): string[] {
+  return csv
+    .split(/\r?\n/)
+    .map((line) => {
+      const m = /^\s*(?:"((?:[^"]|"")*)"|([^,]*))/.exec(line);
+      return (m?.[1]?.replace(/""/g, '"') ?? m?.[2] ?? '').trim();
+    })
+    .filter((cell, i) => cell && !cell.startsWith('#') && !(i === 0 && /^urls?$/i.test(cell)));
+}
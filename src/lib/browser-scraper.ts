@@ -0,0 +1,254 @@
+import type { Browser, Page } from 'playwright-core';
+import { RawImage } from './html-images';
+import { startGuardProxy } from './guard-proxy';
+import { assertUrlAllowed, checkUrl } from './url-policy';
+import { FirecrawlOptions, FirecrawlResponse, PageScreenshot, Scraper } from './types';
+
+/* -----------------------------------------------------------
+   Headless-browser scraper (scraper: "browser")
+   -----------------------------------------------------------
+   Local Chromium via playwright-core. Renders client-side JS,
+   scrolls to trigger lazy loaders and carousels, and records
+   every image the page actually requested. On request it also
+   screenshots the first viewport and the hero / product-demo
+   containers – UI built from HTML/CSS or Lottie has no image
+   file to harvest. The binary is not bundled: set
+   CHROMIUM_PATH (e.g. a Lambda layer such as
+   @sparticuz/chromium, or a local Chrome).
+----------------------------------------------------------- */
+
+const VIEWPORT = { width: 1440, height: 900 };
+const NAVIGATION_TIMEOUT_MS = 30_000;
+/** Quiet-network wait after load and after scrolling (best effort) */
+const IDLE_TIMEOUT_MS = 5_000;
+/** Scroll steps of one viewport each, and the pause between them */
+const MAX_SCROLL_STEPS = 25;
+const SCROLL_PAUSE_MS = 250;
+
+/** Containers worth a capture of their own: heroes, product demos, Lottie players */
+const HERO_SELECTOR = '[class*="hero" i], [id*="hero" i], [class*="masthead" i], main > section:first-of-type';
+const SHOT_SELECTOR = [
+  HERO_SELECTOR,
+  '[class*="demo" i]',
+  '[id*="demo" i]',
+  '[class*="product-ui" i]',
+  '[class*="app-preview" i]',
+  '[class*="mockup" i]',
+  'lottie-player',
+  'dotlottie-player',
+  '[data-animation-path]',
+  '[class*="lottie" i]',
+].join(', ');
+const MAX_ELEMENT_SHOTS = 4;
+/** Element size (px) worth capturing; taller ones are page wrappers */
+const MIN_SHOT = { width: 300, height: 200, maxHeight: VIEWPORT.height * 2 };
+const SHOT_TIMEOUT_MS = 5_000;
+/** Marks the chosen elements so a locator can find them again */
+const SHOT_ATTR = 'data-crawl-shot';
+
+/** One browser per Lambda container; pages get a fresh context each. */
+let browserPromise: Promise<Browser> | undefined;
+
+async function launchBrowser(): Promise<Browser> {
+  const executablePath = process.env.CHROMIUM_PATH?.trim();
+  if (!executablePath) throw new Error('browser scraper needs CHROMIUM_PATH (path to a Chromium binary)');
+
+  // loaded lazily so the other backends never pay for it
+  const { chromium } = await import('playwright-core');
+  return chromium.launch({
+    executablePath,
+    headless: true,
+    args: ['--no-sandbox', '--disable-dev-shm-usage', '--disable-gpu', '--no-zygote'],
+  });
+}
+
+/** The shared browser; a failed launch or a crashed / closed Chromium makes the next call launch again. */
+function getBrowser(): Promise<Browser> {
+  if (!browserPromise) {
+    const launching = launchBrowser();
+    const forget = () => {
+      if (browserPromise === launching) browserPromise = undefined;
+    };
+    browserPromise = launching;
+    launching.then((browser) => browser.on('disconnected', forget), forget);
+  }
+  return browserPromise;
+}
+
+/** Close the shared browser (tests, local scripts). */
+export async function closeBrowser(): Promise<void> {
+  const pending = browserPromise;
+  browserPromise = undefined;
+  const browser = await pending?.catch(() => undefined);
+  await browser?.close();
+}
+
+const pngDataUrl = (buffer: Buffer) => `data:image/png;base64,${buffer.toString('base64')}`;
+
+/**
+ * The first viewport, then up to MAX_ELEMENT_SHOTS hero / demo elements
+ * (outermost match wins, nested matches are skipped). Failed captures are
+ * logged and left out. Marks elements in the DOM – call after reading it.
+ */
+async function captureScreenshots(page: Page): Promise<PageScreenshot[]> {
+  const shots: PageScreenshot[] = [];
+  try {
+    const buffer = await page.screenshot({ type: 'png', timeout: SHOT_TIMEOUT_MS });
+    shots.push({ url: pngDataUrl(buffer), kind: 'viewport', inHero: true, context: (await page.title()) || undefined });
+  } catch (err: any) {
+    console.warn('BrowserScraper: viewport screenshot failed:', err.message);
+  }
+
+  const targets = await page.evaluate(
+    ({ selector, hero, attr, max, min }) => {
+      const chosen: Element[] = [];
+      const out: { inHero: boolean; context?: string }[] = [];
+      for (const el of Array.from(document.querySelectorAll(selector))) {
+        if (chosen.length >= max) break;
+        if (chosen.some((c) => c.contains(el) || el.contains(c))) continue;
+        const rect = el.getBoundingClientRect();
+        if (rect.width < min.width || rect.height < min.height || rect.height > min.maxHeight) continue;
+        el.setAttribute(attr, String(chosen.length));
+        chosen.push(el);
+        const text = ((el as HTMLElement).innerText ?? '').replace(/\s+/g, ' ').trim();
+        out.push({ inHero: el.matches(hero), context: text.slice(0, 200) || undefined });
+      }
+      return out;
+    },
+    { selector: SHOT_SELECTOR, hero: HERO_SELECTOR, attr: SHOT_ATTR, max: MAX_ELEMENT_SHOTS, min: MIN_SHOT }
+  );
+
+  for (const [i, target] of targets.entries()) {
+    try {
+      const buffer = await page.locator(`[${SHOT_ATTR}="${i}"]`).screenshot({ type: 'png', timeout: SHOT_TIMEOUT_MS });
+      shots.push({ url: pngDataUrl(buffer), kind: 'element', ...target });
+    } catch (err: any) {
+      console.warn('BrowserScraper: element screenshot failed:', err.message);
+    }
+  }
+  console.log('BrowserScraper: screenshots:', shots.length);
+  return shots;
+}
+
+/**
+ * Load `url` in Chromium, scroll to the bottom and back, then return the
+ * rendered DOM, links, metadata, the image URLs requested on the way and,
+ * with `options.screenshots`, the page captures.
+ */
+export async function browserScrape(url: string, options: FirecrawlOptions): Promise<FirecrawlResponse> {
+  console.log('BrowserScraper: GET', url, 'formats:', options.formats.join(','));
+  await assertUrlAllowed(url, options.policy);
+  const browser = await getBrowser();
+  // all traffic of the context (redirect hops, workers, WebSockets
+  // included) leaves through the proxy, which does the DNS-checked connect
+  const proxy = await startGuardProxy(options.policy);
+  const context = await browser
+    .newContext({
+      viewport: VIEWPORT,
+      userAgent: `Mozilla/5.0 (compatible; saas-image-crawl/1.0.0; +headless)`,
+      proxy: { server: proxy.server },
+      serviceWorkers: 'block',
+    })
+    .catch(async (err) => {
+      await proxy.close();
+      throw err;
+    });
+
+  try {
+    // fail fast on what needs no DNS: other schemes (file:, ftp:),
+    // literal private addresses, denied domains
+    await context.route('**/*', (route) => {
+      const target = route.request().url();
+      try {
+        checkUrl(target, options.policy);
+      } catch (err: any) {
+        console.warn('BrowserScraper: blocked', target, err.message);
+        return route.abort('blockedbyclient');
+      }
+      return route.continue();
+    });
+
+    const page = await context.newPage();
+    const imageRequests = new Set<string>();
+    page.on('response', (res) => {
+      const type = res.request().resourceType();
+      const contentType = res.headers()['content-type'] ?? '';
+      if (res.status() < 400 && (type === 'image' || contentType.startsWith('image/'))) {
+        const u = res.url();
+        if (/^https?:/.test(u)) imageRequests.add(u);
+      }
+    });
+
+    const response = await page.goto(url, { waitUntil: 'load', timeout: NAVIGATION_TIMEOUT_MS });
+    await page.waitForLoadState('networkidle', { timeout: IDLE_TIMEOUT_MS }).catch(() => undefined);
+
+    // scroll one viewport at a time so IntersectionObserver loaders fire
+    await page.evaluate(
+      async ({ steps, pause }) => {
+        for (let i = 0; i < steps; i++) {
+          const before = window.scrollY;
+          window.scrollBy(0, window.innerHeight);
+          await new Promise((r) => setTimeout(r, pause));
+          if (window.scrollY === before) break; // reached the bottom
+        }
+        window.scrollTo(0, 0);
+      },
+      { steps: MAX_SCROLL_STEPS, pause: SCROLL_PAUSE_MS }
+    );
+    await page.waitForLoadState('networkidle', { timeout: IDLE_TIMEOUT_MS }).catch(() => undefined);
+
+    const out: FirecrawlResponse = { imageRequests: [...imageRequests] };
+    const finalUrl = page.url();
+
+    if (options.formats.includes('rawHtml')) out.rawHtml = await page.content();
+
+    if (options.formats.includes('links')) {
+      const hrefs = await page.$$eval('a[href]', (as) => as.map((a) => (a as HTMLAnchorElement).href));
+      out.links = [...new Set(hrefs.filter((h) => /^https?:/.test(h)).map((h) => h.split('#')[0]))];
+      console.log('BrowserScraper: Links found:', out.links.length);
+    }
+
+    if (options.formats.includes('metadata')) {
+      const meta = await page.evaluate(() => {
+        const content = (sel: string) => document.querySelector(sel)?.getAttribute('content') ?? undefined;
+        return {
+          title: document.title || undefined,
+          description: content('meta[name="description"]'),
+          language: document.documentElement.getAttribute('lang') ?? undefined,
+          ogTitle: content('meta[property="og:title"]'),
+          ogSiteName: content('meta[property="og:site_name"]'),
+          ogImage: content('meta[property="og:image"]'),
+        };
+      });
+      out.metadata = { ...meta, sourceURL: finalUrl, statusCode: response?.status() };
+    }
+
+    // last: it marks elements in the DOM
+    if (options.screenshots) out.screenshots = await captureScreenshots(page);
+
+    console.log('BrowserScraper: image requests:', imageRequests.size);
+    return out;
+  } finally {
+    await context.close();
+    await proxy.close();
+  }
+}
+
+export const browserScraper: Scraper = {
+  name: 'browser',
+  scrape: browserScrape,
+};
+
+/**
+ * A page's screenshots as image candidates. They go after the harvested
+ * images so a real image file wins the near-duplicate check.
+ */
+export function screenshotImages(shots: PageScreenshot[] = [], landingPage: string): RawImage[] {
+  return shots.map((shot, index) => ({
+    url: shot.url,
+    landingPage,
+    source: 'screenshot',
+    context: shot.context,
+    position: { index, inHero: shot.inHero, aboveFold: shot.kind === 'viewport' || shot.inHero },
+  }));
+}
@@ -0,0 +1,48 @@
+/**
+ * `Promise.all(items.map(fn))` with at most `limit` calls in flight.
+ * Results keep input order; the first rejection rejects the whole call
+ * (wrap `fn` if you want to collect failures instead).
+ */
+export async function mapLimit<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i], i);
+    }
+  };
+
+  // NaN / 0 would start no workers and silently skip every item
+  const n = Math.max(1, Math.min(Number.isFinite(limit) ? limit : 1, items.length));
+  await Promise.all(Array.from({ length: n }, worker));
+  return results;
+}
+
+/** Run at most `limit` wrapped calls at once; the rest wait in FIFO order. */
+export function createLimiter(limit: number) {
+  let active = 0;
+  const queue: (() => void)[] = [];
+
+  const release = () => {
+    active--;
+    queue.shift()?.();
+  };
+
+  return async function run<T>(fn: () => Promise<T>): Promise<T> {
+    if (active >= limit) await new Promise<void>((res) => queue.push(res));
+    active++;
+    try {
+      return await fn();
+    } finally {
+      release();
+    }
+  };
+}
+
+export type Limiter = ReturnType<typeof createLimiter>;
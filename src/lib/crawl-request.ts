@@ -0,0 +1,180 @@
+import { isScraperName } from './scraper';
+import { AiConfig, parseAiConfig } from './llm';
+import { CrawlLimits, resolveLimits } from './limits';
+import { HASH_ALGORITHMS, HashAlgorithm, isHashAlgorithm } from './phash';
+import { parseScoreWeights, ScoreWeights } from './scoring';
+import { ImageCategory, parseCategories } from './image-categories';
+import { AltTextOptions, parseAltTextOptions } from './alt-text';
+import { LinkRules, parseLinkRules } from './link-ranker';
+import { parsePathScope, PathScope } from './page-crawl';
+import { parseTransformOptions, TransformOptions } from './transform';
+import { checkUrl, parseUrlPolicy, UrlPolicy } from './url-policy';
+import { CrawlError, invalidRequest } from './errors';
+import { CrawlRequest, ScraperName } from './types';
+
+/* -----------------------------------------------------------
+   Request schema (POST /crawl, POST /crawl/batch)
+   -----------------------------------------------------------
+   CrawlRequestBody is the wire format; parseCrawlOptions turns
+   it into a CrawlRequest (defaults applied, limits clamped).
+   Every failure is an INVALID_REQUEST naming the field.
+----------------------------------------------------------- */
+
+/** Body of POST /crawl, as sent by the caller */
+export interface CrawlRequestBody extends Partial<CrawlLimits>, PathScope {
+  url: string;
+  /** Letters, digits, _ and - (generated if omitted) */
+  job_id?: string;
+  force_refresh?: boolean;
+  webhook_url?: string;
+  scraper?: ScraperName;
+  ai?: AiConfig;
+  hash_algorithm?: HashAlgorithm;
+  hash_threshold?: number;
+  score_weights?: Partial<ScoreWeights>;
+  min_score?: number;
+  categories?: ImageCategory[];
+  alt_text?: Partial<AltTextOptions>;
+  link_rules?: LinkRules;
+  transform?: Partial<TransformOptions>;
+  screenshots?: boolean;
+  url_policy?: UrlPolicy;
+}
+
+/** Everything in a crawl request except the URL – shared by batch jobs */
+export type CrawlOptions = Omit<CrawlRequest, 'url'>;
+
+/** Option fields of the body (everything but `url` and `job_id`) */
+const OPTION_FIELDS: (keyof CrawlRequestBody)[] = [
+  'force_refresh',
+  'webhook_url',
+  'scraper',
+  'ai',
+  'max_pages',
+  'max_depth',
+  'max_images',
+  'max_ai_images',
+  'hash_algorithm',
+  'hash_threshold',
+  'score_weights',
+  'min_score',
+  'categories',
+  'alt_text',
+  'link_rules',
+  'include_paths',
+  'exclude_paths',
+  'transform',
+  'screenshots',
+  'url_policy',
+];
+
+/** Run one field's validator; its message becomes an INVALID_REQUEST for `name`. */
+function field<T>(name: string, parse: () => T): T {
+  try {
+    return parse();
+  } catch (err: any) {
+    throw err instanceof CrawlError ? err : invalidRequest(err.message, name);
+  }
+}
+
+const isHttpUrl = (value: unknown) => {
+  try {
+    return typeof value === 'string' && /^https?:$/.test(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+/** Literal private addresses and internal names fail up front (DNS is checked when fetching). */
+function notBlocked(name: string, url: string) {
+  try {
+    checkUrl(url);
+  } catch (err: any) {
+    throw new CrawlError('URL_BLOCKED', err.message, { field: name, cause: err });
+  }
+}
+
+/**
+ * Validate the crawl options of a request body (POST /crawl or a batch);
+ * throws an INVALID_REQUEST CrawlError. `url` and `job_id` are not options.
+ */
+export function parseCrawlOptions(body: Record<string, unknown>): CrawlOptions {
+  const unknown = Object.keys(body).filter((key) => !(OPTION_FIELDS as string[]).includes(key));
+  if (unknown.length) throw invalidRequest(`unknown option ${unknown.join(', ')}`, unknown[0]);
+
+  const { force_refresh = false, scraper, hash_algorithm, hash_threshold, min_score, screenshots } = body;
+  if (typeof force_refresh !== 'boolean') throw invalidRequest('force_refresh must be a boolean', 'force_refresh');
+  if (scraper !== undefined && !isScraperName(scraper)) throw invalidRequest(`unknown scraper: ${scraper}`, 'scraper');
+  if (hash_algorithm !== undefined && !isHashAlgorithm(hash_algorithm)) {
+    throw invalidRequest(`hash_algorithm must be one of ${HASH_ALGORITHMS.join(', ')}`, 'hash_algorithm');
+  }
+  if (
+    hash_threshold !== undefined &&
+    (!Number.isInteger(hash_threshold) || (hash_threshold as number) < 0 || (hash_threshold as number) > 64)
+  ) {
+    throw invalidRequest('hash_threshold must be an integer between 0 and 64', 'hash_threshold');
+  }
+  if (min_score !== undefined && (typeof min_score !== 'number' || !Number.isFinite(min_score))) {
+    throw invalidRequest('min_score must be a number', 'min_score');
+  }
+  if (screenshots !== undefined && typeof screenshots !== 'boolean') {
+    throw invalidRequest('screenshots must be a boolean', 'screenshots');
+  }
+
+  return {
+    force_refresh,
+    webhook_url: parseWebhookUrl(body.webhook_url),
+    scraper: scraper as ScraperName | undefined,
+    ai: field('ai', () => parseAiConfig(body.ai)),
+    hash_algorithm: hash_algorithm as HashAlgorithm | undefined,
+    hash_threshold: hash_threshold as number | undefined,
+    score_weights: field('score_weights', () => parseScoreWeights(body.score_weights)),
+    min_score: min_score as number | undefined,
+    categories: field('categories', () => parseCategories(body.categories)),
+    alt_text: field('alt_text', () => parseAltTextOptions(body.alt_text)),
+    link_rules: field('link_rules', () => parseLinkRules(body.link_rules)),
+    transform: field('transform', () => parseTransformOptions(body.transform)),
+    screenshots: screenshots as boolean | undefined,
+    url_policy: field('url_policy', () => parseUrlPolicy(body.url_policy)),
+    ...field('include_paths', () => parsePathScope(body)),
+    ...field('limits', () => resolveLimits(body)),
+  };
+}
+
+/** Job or batch `webhook_url`: an absolute http(s) URL, not a private address. */
+export function parseWebhookUrl(url: unknown): string | undefined {
+  if (url === undefined || url === null) return undefined;
+  if (!isHttpUrl(url)) throw invalidRequest('webhook_url must be an http(s) URL', 'webhook_url');
+  notBlocked('webhook_url', url as string);
+  return url as string;
+}
+
+/** The site to crawl: an absolute http(s) URL, not a private address. */
+export function parseCrawlUrl(url: unknown): string {
+  if (!url) throw invalidRequest('url missing', 'url');
+  if (typeof url !== 'string') throw invalidRequest('url must be a string', 'url');
+  if (!isHttpUrl(url)) throw invalidRequest('url must be an absolute http(s) URL', 'url');
+  notBlocked('url', url);
+  return url;
+}
+
+/**
+ * Parse and validate a POST /crawl body (JSON text). Returns the request
+ * and the caller's job id, if any.
+ */
+export function parseCrawlBody(raw: string | undefined): { request: CrawlRequest; jobId?: string } {
+  if (!raw) throw invalidRequest('body missing');
+  let body: unknown;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    throw invalidRequest('body must be valid JSON');
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw invalidRequest('body must be a JSON object');
+  }
+
+  const { url, job_id, ...options } = body as Record<string, unknown>;
+  if (job_id !== undefined && typeof job_id !== 'string') throw invalidRequest('job_id must be a string', 'job_id');
+  return { request: { url: parseCrawlUrl(url), ...parseCrawlOptions(options) }, jobId: job_id || undefined };
+}
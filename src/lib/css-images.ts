@@ -0,0 +1,119 @@
+import axios from 'axios';
+import { mapLimit } from './concurrency';
+import type { ImageVariant } from './html-images';
+import type { RobotsGuard } from './robots';
+import { checkUrl, requestGuard, UrlPolicy } from './url-policy';
+
+/** Stylesheets fetched per page, and how many at once */
+const MAX_STYLESHEETS = 10;
+const STYLESHEET_CONCURRENCY = 3;
+const MAX_CSS_BYTES = 2 * 1024 * 1024;
+
+/* background / background-image declarations only – url() in @font-face,
+   cursor, mask etc. is never a product image */
+const BG_DECL_RE = /background(?:-image)?\s*:\s*([^;}]+)/gi;
+const URL_RE = /url\(\s*(['"]?)(.*?)\1\s*\)/gi;
+
+/**
+ * `image-set("a.png" 1x, url(b.png) 2x)` → candidates; the string may or
+ * may not wrap each entry in url().
+ */
+function parseImageSet(body: string): ImageVariant[] {
+  const out: ImageVariant[] = [];
+  for (const part of body.split(/,(?![^(]*\))/)) {
+    const m = /^\s*(?:url\(\s*(['"]?)(.*?)\1\s*\)|(['"])(.*?)\3)\s*(?:(\d*\.?\d+)x)?/i.exec(part);
+    const url = m?.[2] ?? m?.[4];
+    if (url) out.push({ url, density: m?.[5] ? parseFloat(m[5]) : 1 });
+  }
+  return out;
+}
+
+/**
+ * Image references in CSS background declarations. Each entry is one image:
+ * a lone url() gives one candidate, an image-set() gives several (pick with
+ * pickBestVariant). URLs are returned as written – resolve them against the
+ * stylesheet, not the page.
+ */
+export function parseCssImages(css: string): ImageVariant[][] {
+  const groups: ImageVariant[][] = [];
+  let decl: RegExpExecArray | null;
+
+  BG_DECL_RE.lastIndex = 0;
+  while ((decl = BG_DECL_RE.exec(css))) {
+    let value = decl[1];
+
+    // image-set() / -webkit-image-set() first, then strip them out
+    value = value.replace(/(?:-webkit-)?image-set\(((?:[^()]|\([^()]*\))*)\)/gi, (_m, body: string) => {
+      const set = parseImageSet(body);
+      if (set.length) groups.push(set);
+      return '';
+    });
+
+    let u: RegExpExecArray | null;
+    URL_RE.lastIndex = 0;
+    while ((u = URL_RE.exec(value))) {
+      if (u[2]) groups.push([{ url: u[2], density: 1 }]);
+    }
+  }
+  return groups;
+}
+
+/** hrefs of <link rel="stylesheet"> – a regex is enough, no second DOM parse */
+export function stylesheetLinks(html: string, baseUrl: string): string[] {
+  const out = new Set<string>();
+  for (const tag of html.match(/<link\b[^>]*>/gi) ?? []) {
+    if (!/\brel\s*=\s*["']?[^"'>]*\bstylesheet\b/i.test(tag)) continue;
+    const href = /\bhref\s*=\s*(["'])(.*?)\1/i.exec(tag)?.[2] ?? /\bhref\s*=\s*([^\s>]+)/i.exec(tag)?.[1];
+    if (!href) continue;
+    try {
+      const abs = new URL(href, baseUrl);
+      if (/^https?:$/.test(abs.protocol)) out.add(abs.href);
+    } catch {
+      /* ignore malformed */
+    }
+  }
+  return [...out].slice(0, MAX_STYLESHEETS);
+}
+
+/**
+ * Download the page's linked stylesheets and return their background
+ * images, resolved against each stylesheet's URL. Failures (and sheets
+ * robots.txt or the URL policy disallow) are skipped.
+ */
+export async function fetchStylesheetImages(
+  html: string,
+  pageUrl: string,
+  robots?: RobotsGuard,
+  policy?: UrlPolicy
+): Promise<ImageVariant[][]> {
+  const sheets = stylesheetLinks(html, pageUrl);
+
+  const perSheet = await mapLimit(sheets, STYLESHEET_CONCURRENCY, async (sheetUrl) => {
+    try {
+      checkUrl(sheetUrl, policy);
+      await robots?.check(sheetUrl, { pace: false });
+      const { data } = await axios.get<string>(sheetUrl, {
+        ...requestGuard(policy),
+        responseType: 'text',
+        timeout: 10_000,
+        maxContentLength: MAX_CSS_BYTES,
+      });
+      return parseCssImages(String(data)).map((group) =>
+        group
+          .map((c) => {
+            try {
+              return { ...c, url: new URL(c.url, sheetUrl).href };
+            } catch {
+              return undefined;
+            }
+          })
+          .filter((c): c is ImageVariant => !!c)
+      );
+    } catch (err: any) {
+      console.info(`fetchStylesheetImages: skipping ${sheetUrl}: ${err.message}`);
+      return [];
+    }
+  });
+
+  return perSheet.flat().filter((g) => g.length);
+}
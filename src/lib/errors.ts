@@ -0,0 +1,112 @@
+import { AiOutputError } from './llm';
+import { RobotsDisallowedError } from './robots';
+import { isUrlBlocked } from './url-policy';
+
+/* -----------------------------------------------------------
+   Error codes (API responses and failed jobs)
+   -----------------------------------------------------------
+   Every error that leaves the service carries one code from
+   this catalogue; the HTTP status follows from it. Unknown
+   errors are classified by what threw them and, for jobs, by
+   the pipeline step that was running.
+----------------------------------------------------------- */
+
+export type ErrorCode =
+  | 'INVALID_REQUEST'   // bad body / option – the caller's to fix
+  | 'UNAUTHORIZED'      // missing, unknown or revoked API key
+  | 'RATE_LIMITED'      // too many requests this minute
+  | 'QUOTA_EXCEEDED'    // monthly crawls / pages / AI images used up
+  | 'URL_BLOCKED'       // robots.txt or URL policy refuses the URL
+  | 'SCRAPE_FAILED'     // scraper backend or target site failed
+  | 'AI_FAILED'         // model provider failed or answered nonsense
+  | 'STORAGE_FAILED'    // S3 (job records, cache, uploads)
+  | 'TIMEOUT'           // an upstream call ran out of time
+  | 'INTERNAL_ERROR';   // anything else
+
+export const ERROR_STATUS: Record<ErrorCode, number> = {
+  INVALID_REQUEST: 400,
+  UNAUTHORIZED: 401,
+  RATE_LIMITED: 429,
+  QUOTA_EXCEEDED: 429,
+  URL_BLOCKED: 403,
+  SCRAPE_FAILED: 502,
+  AI_FAILED: 502,
+  STORAGE_FAILED: 503,
+  TIMEOUT: 504,
+  INTERNAL_ERROR: 500,
+};
+
+export class CrawlError extends Error {
+  readonly status: number;
+  /** Pipeline step that failed (see STEP_NAMES) */
+  readonly step?: string;
+  /** Request field that failed validation */
+  readonly field?: string;
+  /** The original error, if this one classifies another */
+  readonly cause?: unknown;
+  /** Seconds until a retry can succeed (429s; sent as Retry-After) */
+  readonly retryAfter?: number;
+
+  constructor(
+    public readonly code: ErrorCode,
+    message: string,
+    {
+      step,
+      field,
+      cause,
+      retryAfter,
+    }: { step?: string; field?: string; cause?: unknown; retryAfter?: number } = {}
+  ) {
+    super(message);
+    this.name = 'CrawlError';
+    this.status = ERROR_STATUS[code];
+    this.step = step;
+    this.field = field;
+    this.cause = cause;
+    this.retryAfter = retryAfter;
+  }
+}
+
+export const invalidRequest = (message: string, field?: string) =>
+  new CrawlError('INVALID_REQUEST', message, { field });
+
+/** What an unclassified failure in each step most likely is */
+const STEP_CODES: Record<string, ErrorCode> = {
+  homepage: 'SCRAPE_FAILED',
+  link_filter: 'AI_FAILED',
+  page_scrape: 'SCRAPE_FAILED',
+  image_analysis: 'AI_FAILED',
+};
+
+const TIMEOUT_CODES = new Set(['ECONNABORTED', 'ETIMEDOUT', 'ESOCKETTIMEDOUT']);
+
+/** Classify anything thrown, optionally in pipeline step `step`. */
+export function toCrawlError(err: unknown, step?: string): CrawlError {
+  if (err instanceof CrawlError) {
+    if (err.step || !step) return err;
+    return new CrawlError(err.code, err.message, { step, field: err.field, cause: err.cause, retryAfter: err.retryAfter });
+  }
+  const e = err as any;
+  const message: string = e?.message ?? String(err);
+
+  let code: ErrorCode;
+  if (err instanceof RobotsDisallowedError || isUrlBlocked(err)) code = 'URL_BLOCKED';
+  else if (err instanceof AiOutputError) code = 'AI_FAILED';
+  else if (TIMEOUT_CODES.has(e?.code) || e?.name === 'TimeoutError' || /timed? ?out/i.test(message)) code = 'TIMEOUT';
+  else if (e?.$metadata) code = 'STORAGE_FAILED'; // AWS SDK v3
+  else if (err instanceof SyntaxError && !step) code = 'INVALID_REQUEST'; // JSON.parse of the body
+  else code = (step && STEP_CODES[step]) || 'INTERNAL_ERROR';
+
+  return new CrawlError(code, message, { step, cause: err });
+}
+
+/** JSON error fields of an API response or failed job */
+export function errorBody(err: CrawlError) {
+  return {
+    code: err.code,
+    error: err.message,
+    ...(err.step ? { step: err.step } : {}),
+    ...(err.field ? { field: err.field } : {}),
+    ...(err.retryAfter !== undefined ? { retry_after: err.retryAfter } : {}),
+  };
+}
@@ -1,11 +1,15 @@
 import axios from 'axios';
-import { FirecrawlOptions, FirecrawlResponse } from './types';
+import { assertUrlAllowed } from './url-policy';
+import { FirecrawlOptions, FirecrawlResponse, Scraper } from './types';
 
 /** Minimal wrapper around Firecrawl REST API. */
 export async function firecrawlScrape(
   url: string,
-  options: FirecrawlOptions
+  { screenshots: _screenshots, policy, ...options }: FirecrawlOptions
 ): Promise<FirecrawlResponse> {
+  // Firecrawl fetches the page, but we choose what it may fetch
+  await assertUrlAllowed(url, policy);
+
   // Add cache-busting timestamp to force fresh data
   const cacheBustUrl = url.includes('?') 
     ? `${url}&_cb=${Date.now()}` 
@@ -57,22 +61,24 @@ export async function firecrawlScrape(
       JSON.stringify(data, null, 2).slice(0, 800) + ' …'
     );
     
+    const inner = (data as any).data ?? data;      // data wrapper
+    const page: FirecrawlResponse = Array.isArray(inner) ? inner[0] : inner; // 🆕 take first element
+
     // Log specific fields we care about
-    if (data.links) {
-      console.log('Firecrawl: Links found:', data.links.length);
-      console.log('Firecrawl: First few links:', data.links.slice(0, 5));
+    if (page.links) {
+      console.log('Firecrawl: Links found:', page.links.length);
+      console.log('Firecrawl: First few links:', page.links.slice(0, 5));
     } else {
       console.log('Firecrawl: No links field in response');
     }
     
-    if (data.rawHTML) {
-      console.log('Firecrawl: RawHTML length:', data.rawHTML.length);
+    if (page.rawHtml) {
+      console.log('Firecrawl: RawHTML length:', page.rawHtml.length);
     } else {
-      console.log('Firecrawl: No rawHTML field in response');
+      console.log('Firecrawl: No rawHtml field in response');
     }
     
-    const inner = (data as any).data ?? data;      // data wrapper
-    return Array.isArray(inner) ? inner[0] : inner; // 🆕 take first element
+    return page;
   } catch (error: any) {
     console.error('Firecrawl: Error details:');
     console.error('  Status:', error.response?.status);
@@ -99,3 +105,8 @@ export async function firecrawlScrape(
     throw error;
   }
 }
+
+export const firecrawlScraper: Scraper = {
+  name: 'firecrawl',
+  scrape: firecrawlScrape,
+};
@@ -1,32 +1,44 @@
-import { openai } from './openai';
+import { ModelConfig, isHttpUrl, resolveModel, structuredChat, urlListSchema } from './llm';
+import { heuristicExtractImages } from './heuristics';
 
 export async function gptExtractImages(
   html: string,
   baseUrl: string,
-  maxImages = 50
+  maxImages = 50,
+  modelConfig?: ModelConfig
 ): Promise<string[]> {
+  const m = resolveModel('image_extract', modelConfig);
+  console.info(`gptExtractImages: ${m.provider}/${m.model}`);
+  if (m.provider === 'heuristic') return heuristicExtractImages(html, baseUrl, maxImages);
+
   const snippet = html.slice(0, 120_000);
 
-  const { choices } = await openai.chat.completions.create({
-    model: 'gpt-4o-mini',               // ✅ CHEAP text-only model
+  return structuredChat<string[]>(m, {
+    step: 'image_extract',
     temperature: 0,
+    max_tokens: 600,
+    schemaName: 'image_urls',
+    schema: urlListSchema('images'),
     messages: [
       {
         role: 'system',
         content:
           `You are an HTML scraper. Extract up to ${maxImages} distinct image URLs ` +
           `that are likely product screenshots or UI mock-ups.\n` +
-          `Return a JSON array of absolute URLs only — no commentary.`,
+          `Return a JSON object {"images": [...]} of absolute URLs only — no commentary.`,
       },
       { role: 'user', content: `BASE URL: ${baseUrl}` },
       { role: 'user', content: snippet },
     ],
-    max_tokens: 600,
-  });
+    validate: (parsed) => {
+      const out: unknown[] = parsed?.images;
+      if (!Array.isArray(out)) return { ok: false, error: '"images" must be an array' };
 
-  try {
-    return JSON.parse(choices[0].message.content ?? '[]');
-  } catch {
-    return [];
-  }
+      const bad = out.filter((u) => !isHttpUrl(u));
+      if (bad.length) {
+        return { ok: false, error: `not absolute http(s) URLs: ${JSON.stringify(bad.slice(0, 10))}` };
+      }
+      return { ok: true, value: [...new Set(out as string[])].slice(0, maxImages) };
+    },
+  });
 }
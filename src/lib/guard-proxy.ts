@@ -0,0 +1,134 @@
+import http from 'http';
+import net from 'net';
+import { checkUrl, isUrlBlocked, socketLookup, UrlBlockedError, UrlPolicy } from './url-policy';
+
+/* -----------------------------------------------------------
+   Guarded forward proxy (browser scraper)
+   -----------------------------------------------------------
+   Chromium resolves and connects on its own, and request
+   interception never sees redirect hops, service workers or
+   WebSockets. So each browser context talks to the network
+   only through this proxy on 127.0.0.1: plain HTTP requests
+   (every redirect hop is a request of its own) and CONNECT
+   tunnels (HTTPS, WebSockets) are checked against the URL
+   policy, and the upstream socket connects to the address
+   the check resolved – a rebinding DNS answer cannot slip in.
+----------------------------------------------------------- */
+
+/** Hop-by-hop headers meant for us, not for the site */
+const PROXY_HEADERS = ['proxy-connection', 'proxy-authorization', 'proxy-authenticate'];
+
+export interface GuardProxy {
+  /** `http://127.0.0.1:<port>` */
+  server: string;
+  close(): Promise<void>;
+}
+
+/** `host:port` of a CONNECT request as a URL the policy understands */
+function tunnelUrl(authority: string): string {
+  const { hostname, port } = new URL(`http://${authority}`);
+  return `${port === '80' ? 'http' : 'https'}://${hostname}${port && port !== '80' ? `:${port}` : ''}/`;
+}
+
+/** Start a proxy on a free local port that enforces `policy` on every connection. */
+export async function startGuardProxy(policy: UrlPolicy = {}): Promise<GuardProxy> {
+  const sockets = new Set<net.Socket>();
+  const track = (socket: net.Socket) => {
+    sockets.add(socket);
+    socket.once('close', () => sockets.delete(socket));
+  };
+
+  const refused = (url: string, err: Error) =>
+    console.warn(`GuardProxy: ${isUrlBlocked(err) ? 'blocked' : 'failed'}`, url, err.message);
+
+  const server = http.createServer((req, res) => {
+    const url = req.url ?? '';
+    let target: URL;
+    try {
+      target = checkUrl(url, policy);
+      if (target.protocol !== 'http:') throw new UrlBlockedError(url, `scheme ${target.protocol} without CONNECT`);
+    } catch (err: any) {
+      refused(url, err);
+      res.writeHead(403).end();
+      return;
+    }
+
+    const headers = { ...req.headers };
+    for (const name of PROXY_HEADERS) delete headers[name];
+    const upstream = http.request(
+      {
+        host: target.hostname.replace(/^\[(.*)\]$/, '$1'),
+        port: target.port || 80,
+        path: target.pathname + target.search,
+        method: req.method,
+        headers,
+        lookup: socketLookup,
+      },
+      (upstreamRes) => {
+        res.writeHead(upstreamRes.statusCode ?? 502, upstreamRes.headers);
+        upstreamRes.pipe(res);
+      }
+    );
+    upstream.on('socket', track);
+    upstream.on('error', (err) => {
+      refused(url, err);
+      if (!res.headersSent) res.writeHead(502);
+      res.end();
+    });
+    req.pipe(upstream);
+  });
+
+  server.on('connection', track);
+
+  server.on('connect', (req: http.IncomingMessage, client: net.Socket, head: Buffer) => {
+    const authority = req.url ?? '';
+    let target: URL;
+    try {
+      target = checkUrl(tunnelUrl(authority), policy);
+    } catch (err: any) {
+      refused(authority, err);
+      client.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+      return;
+    }
+
+    const upstream = net.connect({
+      host: target.hostname.replace(/^\[(.*)\]$/, '$1'),
+      port: Number(target.port || 443),
+      lookup: socketLookup,
+    });
+    track(upstream);
+    let open = false;
+    upstream.once('connect', () => {
+      open = true;
+      client.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+      if (head.length) upstream.write(head);
+      upstream.pipe(client);
+      client.pipe(upstream);
+    });
+    upstream.on('error', (err) => {
+      refused(authority, err);
+      // once the tunnel is up the bytes are the site's, not ours
+      if (open) client.destroy();
+      else client.end('HTTP/1.1 502 Bad Gateway\r\n\r\n');
+    });
+    client.on('error', () => upstream.destroy());
+  });
+
+  // WebSockets reach us as CONNECT tunnels; a bare upgrade is not proxied
+  server.on('upgrade', (_req, socket: net.Socket) => socket.destroy());
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => resolve());
+  });
+  const { port } = server.address() as net.AddressInfo;
+
+  return {
+    server: `http://127.0.0.1:${port}`,
+    close: () =>
+      new Promise<void>((resolve) => {
+        for (const socket of sockets) socket.destroy();
+        server.close(() => resolve());
+      }),
+  };
+}
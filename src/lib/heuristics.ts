@@ -0,0 +1,87 @@
+import { ImageCategory, ImageClassification } from './image-categories';
+
+/* -----------------------------------------------------------
+   Deterministic stand-ins for the AI steps (provider
+   "heuristic"). No network, same output for the same input –
+   meant for CI and for running without an LLM budget.
+   (The link filter's stand-in is the rule engine in
+   link-ranker.ts.)
+----------------------------------------------------------- */
+
+/** Alt text from what the page already tells us, else from the filename. */
+export function heuristicAltText(item: { url: string; alt?: string; context?: string }): string {
+  if (item.alt?.trim()) return item.alt.trim();
+  if (item.context?.trim()) return item.context.trim().slice(0, 120);
+
+  try {
+    const file = new URL(item.url).pathname.split('/').pop() ?? '';
+    return decodeURIComponent(file)
+      .replace(/\.[a-z0-9]+$/i, '')
+      .replace(/[-_]+/g, ' ')
+      .trim();
+  } catch {
+    return '';
+  }
+}
+
+/** Image-looking URLs anywhere in the HTML, resolved against `baseUrl`. */
+export function heuristicExtractImages(html: string, baseUrl: string, maxImages = 50): string[] {
+  const re = /["'(\s]((?:https?:)?\/?\/?[^"'()\s]+?\.(?:png|jpe?g|webp|avif|gif)(?:\?[^"'()\s]*)?)["')\s]/gi;
+  const out = new Set<string>();
+  let m: RegExpExecArray | null;
+
+  while ((m = re.exec(html)) && out.size < maxImages) {
+    try {
+      out.add(new URL(m[1], baseUrl).href);
+    } catch {
+      /* ignore malformed */
+    }
+  }
+  return [...out];
+}
+
+const CATEGORY_RULES: { category: ImageCategory; re: RegExp }[] = [
+  { category: 'logo', re: /\b(logo|logos|badge|award|rating|favicon|icon|g2|capterra)\b/i },
+  { category: 'people', re: /\b(team|founder|ceo|headshot|portrait|avatar|testimonial|customer photo|person|people)\b/i },
+  { category: 'mockup', re: /\b(mockup|mock-up|device|iphone|ipad|android|laptop|macbook|phone|tablet)\b/i },
+  { category: 'widget', re: /\b(widget|embed|feed|carousel|review box|wall)\b/i },
+  { category: 'screenshot', re: /\b(screenshot|dashboard|interface|ui|app|analytics|editor|inbox|report)\b/i },
+  { category: 'stock_photo', re: /\b(photo|stock|unsplash|shutterstock|getty|istock|pexels)\b/i },
+  { category: 'illustration', re: /\b(illustration|graphic|drawing|vector|hero-art|artwork)\b/i },
+];
+
+/**
+ * Category from alt text, surrounding text and file name; falls back to the
+ * shape of the image. Confidence stays ≤ 0.5 – this is a guess.
+ */
+export function heuristicClassifyImage(item: {
+  url: string;
+  alt?: string;
+  context?: string;
+  source?: string;
+  dimensions?: { width: number; height: number };
+}): ImageClassification {
+  let file = '';
+  if (!item.url.startsWith('data:')) {
+    try {
+      file = decodeURIComponent(new URL(item.url).pathname.split('/').pop() ?? '').replace(/[-_.]+/g, ' ');
+    } catch {
+      /* ignore malformed */
+    }
+  }
+  // a rendered capture shows the page itself, whatever its text says
+  if (item.source === 'screenshot') return { url: item.url, category: 'screenshot', confidence: 0.4 };
+
+  const text = `${item.alt ?? ''} ${item.context ?? ''} ${file}`;
+
+  for (const { category, re } of CATEGORY_RULES) {
+    if (re.test(text)) return { url: item.url, category, confidence: 0.5 };
+  }
+
+  if (item.source === 'inline-svg') return { url: item.url, category: 'illustration', confidence: 0.4 };
+  const d = item.dimensions;
+  if (d && d.height && d.width / d.height >= 1.2 && d.width / d.height <= 2.2) {
+    return { url: item.url, category: 'screenshot', confidence: 0.2 };
+  }
+  return { url: item.url, category: 'illustration', confidence: 0.1 };
+}
@@ -1,11 +1,59 @@
 import { JSDOM } from 'jsdom';
+import { parseCssImages } from './css-images';
+
+/** One candidate from a srcset / <picture> group */
+export interface ImageVariant {
+  url: string;
+  /** `640w` descriptor */
+  width?: number;
+  /** `2x` descriptor (1 when no descriptor given) */
+  density?: number;
+  /** <source media> / <source type>, when it came from a <picture> */
+  media?: string;
+  type?: string;
+}
+
+/** Where on the page an image was found */
+export type ImageSourceKind =
+  | 'img'
+  | 'picture'
+  | 'noscript'
+  | 'inline-style'   // style="background-image: …"
+  | 'style-block'    // <style> … </style>
+  | 'stylesheet'     // <link rel="stylesheet">
+  | 'og:image'
+  | 'twitter:image'
+  | 'video-poster'
+  | 'inline-svg'     // serialised to a data: URL
+  | 'json-ld'        // schema.org image / screenshot
+  | 'network'        // requested while rendering, not in the final DOM
+  | 'screenshot'     // rendered viewport / element capture (browser scraper)
+  | 'gpt';           // GPT fallback extraction
+
+/** Where the image sits in the page (no layout engine – DOM heuristics) */
+export interface ImagePosition {
+  /** Order among images found on this page */
+  index: number;
+  /** Inside a hero / banner / masthead container */
+  inHero: boolean;
+  /** In the hero or among the first few images */
+  aboveFold: boolean;
+}
 
 /** Returned by the scraper BEFORE dedupe */
 export interface RawImage {
   url: string;
   landingPage: string;
+  source?: ImageSourceKind;
   alt?: string;
   context?: string;
+  /** Declared width of the chosen candidate (from a `w` descriptor) */
+  width?: number;
+  /** The other responsive candidates of the same image */
+  variants?: ImageVariant[];
+  /** <img sizes>, kept for reference */
+  sizes?: string;
+  position?: ImagePosition;
 }
 
 /**
@@ -19,7 +67,122 @@ function absolutify(url: string, base: string): string {
   }
 }
 
-export function parseImages(html: string, landingPage: string): RawImage[] {
+/**
+ * Parse a srcset attribute into candidates, following the HTML spec loosely:
+ * URLs may contain commas (Cloudinary `c_fill,w_300`), descriptors are
+ * `<n>w` or `<n>x`, a bare URL means `1x`.
+ */
+export function parseSrcset(srcset: string): ImageVariant[] {
+  const out: ImageVariant[] = [];
+  let pos = 0;
+
+  while (pos < srcset.length) {
+    // skip whitespace and separating commas
+    while (pos < srcset.length && /[\s,]/.test(srcset[pos])) pos++;
+    if (pos >= srcset.length) break;
+
+    // URL runs to the next whitespace; trailing commas end the candidate
+    let end = pos;
+    while (end < srcset.length && !/\s/.test(srcset[end])) end++;
+    let url = srcset.slice(pos, end);
+    pos = end;
+
+    let descriptor = '';
+    if (url.endsWith(',')) {
+      url = url.replace(/,+$/, '');
+    } else {
+      // descriptors run to the next comma outside parentheses
+      let depth = 0;
+      while (pos < srcset.length) {
+        const c = srcset[pos];
+        if (c === '(') depth++;
+        else if (c === ')') depth = Math.max(0, depth - 1);
+        else if (c === ',' && depth === 0) break;
+        descriptor += c;
+        pos++;
+      }
+    }
+    if (!url) continue;
+
+    const candidate: ImageVariant = { url };
+    const d = descriptor.trim();
+    const w = /^(\d+)w$/i.exec(d);
+    const x = /^(\d*\.?\d+)x$/i.exec(d);
+    if (w) candidate.width = parseInt(w[1], 10);
+    else if (x) candidate.density = parseFloat(x[1]);
+    else if (!d) candidate.density = 1;
+    else continue; // unknown descriptor (e.g. `h`) – skip like browsers do
+    out.push(candidate);
+  }
+
+  return out;
+}
+
+/**
+ * Choose the best candidate of a responsive group: the widest `w`
+ * candidate if any carries one, else the highest density. Ties keep the
+ * earlier candidate.
+ */
+export function pickBestVariant(candidates: ImageVariant[]): ImageVariant | undefined {
+  const withWidth = candidates.filter((c) => c.width !== undefined);
+  const pool = withWidth.length ? withWidth : candidates;
+  const size = (c: ImageVariant) => (withWidth.length ? c.width! : c.density ?? 1);
+
+  return pool.reduce<ImageVariant | undefined>(
+    (best, c) => (!best || size(c) > size(best) ? c : best),
+    undefined
+  );
+}
+
+const HERO_SELECTOR =
+  '[class*="hero" i], [id*="hero" i], [class*="masthead" i], [class*="banner" i], main > section:first-of-type';
+/** Images before this index count as above the fold */
+const FOLD_INDEX = 3;
+
+/** Inline <svg> smaller than this (markup chars / px) is treated as an icon */
+const MIN_SVG_MARKUP = 1500;
+const MIN_SVG_SIZE = 200;
+
+/** Collect `image` / `screenshot` values from any JSON-LD node, recursively */
+function jsonLdImages(node: unknown, out: string[], depth = 0): void {
+  if (!node || depth > 8) return;
+  if (Array.isArray(node)) {
+    node.forEach((n) => jsonLdImages(n, out, depth + 1));
+    return;
+  }
+  if (typeof node !== 'object') return;
+
+  const obj = node as Record<string, unknown>;
+  for (const key of ['image', 'screenshot']) {
+    const values = ([] as unknown[]).concat(obj[key] ?? []);
+    for (const v of values) {
+      if (typeof v === 'string') out.push(v);
+      else if (v && typeof v === 'object') {
+        const o = v as Record<string, unknown>;
+        const url = o.contentUrl ?? o.url;
+        if (typeof url === 'string') out.push(url);
+      }
+    }
+  }
+  for (const [key, value] of Object.entries(obj)) {
+    if (key !== 'image' && key !== 'screenshot' && typeof value === 'object') {
+      jsonLdImages(value, out, depth + 1);
+    }
+  }
+}
+
+/**
+ * Harvest image URLs from one page. `linkedCss` are background-image
+ * groups from the page's external stylesheets (see fetchStylesheetImages),
+ * already absolute. `networkImages` are image requests seen by the browser
+ * scraper; only those not found in the markup are added.
+ */
+export function parseImages(
+  html: string,
+  landingPage: string,
+  linkedCss: ImageVariant[][] = [],
+  networkImages: string[] = []
+): RawImage[] {
   if (!html) return [];
 
   const doc = new JSDOM(html).window.document;
@@ -27,58 +190,179 @@ export function parseImages(html: string, landingPage: string): RawImage[] {
 
   /** helper that de-dupes *within this page* */
   const pushed = new Set<string>();
-  const push = (raw: string | null, alt?: string, ctx?: string) => {
+  const push = (raw: string | null, alt?: string, ctx?: string, extra: Partial<RawImage> = {}) => {
     if (!raw) return;
     const abs = absolutify(raw, landingPage);
     if (!abs) return;
     // extension filter REMOVED — we rely on HEAD content-type later
-
-    if (/(sprite|icon|logo|favicon|avatar|testimonial)/i.test(abs)) return;
+    // icon/logo filenames are penalised in scoring.ts, not dropped here
     if (pushed.has(abs)) return;
 
     pushed.add(abs);
-    out.push({ url: abs, landingPage, alt, context: ctx });
-    console.info('parseImages: pushed', abs);
+    out.push({ url: abs, landingPage, alt, context: ctx, ...extra });
+    console.info('parseImages: pushed', extra.source, abs.slice(0, 200));
+  };
+
+  const positionOf = (el: Element): ImagePosition => {
+    const inHero = !!el.closest(HERO_SELECTOR);
+    return { index: out.length, inHero, aboveFold: inHero || out.length < FOLD_INDEX };
+  };
+
+  /** push the best candidate of a responsive group, keep the rest as variants */
+  const pushGroup = (
+    source: ImageSourceKind,
+    candidates: ImageVariant[],
+    alt?: string,
+    ctx?: string,
+    sizes?: string,
+    el?: Element
+  ) => {
+    const usable: ImageVariant[] = [];
+    for (const c of candidates) {
+      const url = absolutify(c.url, landingPage);
+      // data: URIs in <img> are lazy-load placeholders
+      if (!url || url.startsWith('data:') || usable.some((u) => u.url === url)) continue;
+      usable.push({ ...c, url });
+    }
+
+    const best = pickBestVariant(usable);
+    if (!best) return;
+    const variants = usable.filter((c) => c !== best);
+    push(best.url, alt, ctx, {
+      source,
+      ...(el ? { position: positionOf(el) } : {}),
+      ...(best.width ? { width: best.width } : {}),
+      ...(variants.length ? { variants } : {}),
+      ...(sizes ? { sizes } : {}),
+    });
   };
 
-  /* -------------------- <img> -------------------- */
-  doc.querySelectorAll('img').forEach((img) => {
-    const alt = img.getAttribute('alt') ?? undefined;
-    const ctx = img.parentElement?.textContent?.trim().slice(0, 120) ?? undefined;
+  /** srcset candidates + plain URLs of one <img>, lazy-load attributes first */
+  const imgCandidates = (img: Element): ImageVariant[] => [
+    ...parseSrcset(img.getAttribute('data-srcset') ?? ''),
+    ...parseSrcset(img.getAttribute('srcset') ?? ''),
+    ...['data-src', 'data-original', 'data-lazy', 'src']   // lazy-load ①②③, normal
+      .map((attr) => img.getAttribute(attr))
+      .filter((url): url is string => !!url)
+      .map((url) => ({ url, density: 1 })),
+  ];
+
+  const imgAlt = (img: Element) => img.getAttribute('alt') ?? undefined;
+  const imgCtx = (el: Element) => el.parentElement?.textContent?.trim().slice(0, 120) ?? undefined;
+
+  /* -------------------- <picture> / <img srcset> -------------------- */
+  // one pass in document order; a <picture> comes before its own <img>
+  doc.querySelectorAll('picture, img').forEach((el) => {
+    if (el.tagName === 'IMG') {
+      if (el.closest('picture')) return; // handled with its <picture>
+      pushGroup('img', imgCandidates(el), imgAlt(el), imgCtx(el), el.getAttribute('sizes') ?? undefined, el);
+      return;
+    }
+
+    const candidates: ImageVariant[] = [];
+    el.querySelectorAll('source').forEach((source) => {
+      const ss = source.getAttribute('srcset') ?? source.getAttribute('data-srcset') ?? '';
+      const media = source.getAttribute('media') ?? undefined;
+      const type = source.getAttribute('type') ?? undefined;
+      parseSrcset(ss).forEach((c) => candidates.push({ ...c, media, type }));
+    });
 
-    push(img.getAttribute('src'), alt, ctx);           // normal
-    push(img.getAttribute('data-src'), alt, ctx);      // lazy-load ①
-    push(img.getAttribute('data-original'), alt, ctx); // lazy-load ②
-    push(img.getAttribute('data-lazy'), alt, ctx);     // lazy-load ③
+    const img = el.querySelector('img');
+    if (img) candidates.push(...imgCandidates(img));
+    pushGroup(
+      'picture',
+      candidates,
+      img ? imgAlt(img) : undefined,
+      imgCtx(el),
+      img?.getAttribute('sizes') ?? undefined,
+      el
+    );
   });
 
-  /* -------------------- <source srcset> -------------------- */
-  doc.querySelectorAll('source').forEach((s) => {
-    // normal srcset
-    const ss = s.getAttribute('srcset') ?? s.getAttribute('data-srcset') ?? '';
-    const first = ss.split(',')[0].trim().split(' ')[0];
-    if (first) push(first);
+  /* -------------------- <video poster> -------------------- */
+  doc.querySelectorAll('video[poster]').forEach((v) => {
+    push(v.getAttribute('poster'), v.getAttribute('aria-label') ?? undefined, imgCtx(v), {
+      source: 'video-poster',
+      position: positionOf(v),
+    });
   });
 
   /* -------------------- inline CSS -------------------- */
-  doc.querySelectorAll<HTMLElement>('[style*="background-image"]').forEach((el) => {
-    const style = el.getAttribute('style')!;
-    const m = /background-image:\s*url\([\"']?(.*?)[\"']?\)/i.exec(style);
-    if (m?.[1]) push(m[1]);
+  doc.querySelectorAll<HTMLElement>('[style*="background"]').forEach((el) => {
+    parseCssImages(`background:${el.getAttribute('style')}`).forEach((group) =>
+      pushGroup('inline-style', group, undefined, el.textContent?.trim().slice(0, 120), undefined, el)
+    );
+  });
+
+  /* -------------------- <style> blocks -------------------- */
+  doc.querySelectorAll('style').forEach((style) => {
+    parseCssImages(style.textContent ?? '').forEach((group) => pushGroup('style-block', group));
+  });
+
+  /* -------------------- linked stylesheets -------------------- */
+  linkedCss.forEach((group) => pushGroup('stylesheet', group));
+
+  /* -------------------- og:image / twitter:image -------------------- */
+  const meta = (sel: string) => doc.querySelector(sel)?.getAttribute('content') ?? null;
+  push(meta('meta[property="og:image"]') ?? meta('meta[property="og:image:url"]'), undefined, undefined, {
+    source: 'og:image',
+  });
+  push(meta('meta[name="twitter:image"]') ?? meta('meta[property="twitter:image"]'), undefined, undefined, {
+    source: 'twitter:image',
   });
 
-  /* -------------------- <meta property="og:image"> -------------------- */
-  const og = doc.querySelector('meta[property="og:image"]')?.getAttribute('content');
-  if (og) push(og);
+  /* -------------------- JSON-LD image / screenshot -------------------- */
+  doc.querySelectorAll('script[type="application/ld+json"]').forEach((script) => {
+    try {
+      const urls: string[] = [];
+      jsonLdImages(JSON.parse(script.textContent ?? ''), urls);
+      urls.forEach((u) => push(u, undefined, undefined, { source: 'json-ld' }));
+    } catch {
+      /* invalid JSON-LD is common – ignore */
+    }
+  });
+
+  /* -------------------- inline <svg> illustrations -------------------- */
+  doc.querySelectorAll('svg').forEach((svg) => {
+    if (svg.parentElement?.closest('svg')) return;           // nested
+    if (svg.closest('a, button, nav, footer')) return;       // UI chrome / logos
+    const markup = svg.outerHTML;
+    if (markup.length < MIN_SVG_MARKUP) return;
+
+    // plain pixel attributes only – "100%" says nothing about the artwork
+    const px = (v: string | null) => (v && /^\d+(\.\d+)?(px)?$/.test(v.trim()) ? parseFloat(v) : 0);
+    const viewBox = (svg.getAttribute('viewBox') ?? '').trim().split(/[\s,]+/).map(Number);
+    const w = px(svg.getAttribute('width')) || viewBox[2] || 0;
+    const h = px(svg.getAttribute('height')) || viewBox[3] || 0;
+    if (w && h && Math.max(w, h) < MIN_SVG_SIZE) return;
+
+    const xml = svg.getAttribute('xmlns')
+      ? markup
+      : markup.replace(/^<svg\b/, '<svg xmlns="http://www.w3.org/2000/svg"');
+    const label = svg.getAttribute('aria-label') ?? svg.querySelector('title')?.textContent ?? undefined;
+    push(
+      `data:image/svg+xml;base64,${Buffer.from(xml).toString('base64')}`,
+      label,
+      imgCtx(svg),
+      { source: 'inline-svg', position: positionOf(svg) }
+    );
+  });
 
   /* -------------------- <noscript><img …></noscript> -------------------- */
   doc.querySelectorAll('noscript').forEach((n) => {
     const fragment = new JSDOM(n.textContent || '').window.document;
     fragment.querySelectorAll('img').forEach((img) => {
       const src = img.getAttribute('src') || img.getAttribute('data-src');
-      if (src) push(src, img.getAttribute('alt') || undefined);
+      if (src) push(src, img.getAttribute('alt') || undefined, undefined, { source: 'noscript' });
     });
   });
 
+  /* -------------------- browser network requests -------------------- */
+  // srcset variants the browser chose are the same image – skip them
+  const variantUrls = new Set(out.flatMap((img) => img.variants?.map((v) => v.url) ?? []));
+  networkImages.forEach((u) => {
+    if (!variantUrls.has(u)) push(u, undefined, undefined, { source: 'network' });
+  });
+
   return out;
 }
@@ -0,0 +1,74 @@
+import axios from 'axios';
+import { JSDOM } from 'jsdom';
+import { checkUrl, requestGuard } from './url-policy';
+import { FirecrawlOptions, FirecrawlResponse, Scraper } from './types';
+
+const MAX_HTML_BYTES = 10 * 1024 * 1024; // 10 MB
+
+/**
+ * Plain HTTP scraper: GET the page with axios and pull links / metadata out
+ * with JSDOM. No JS rendering – good enough for static marketing sites and
+ * local fixture servers, and it costs no Firecrawl credits.
+ */
+export async function httpScrape(
+  url: string,
+  options: FirecrawlOptions
+): Promise<FirecrawlResponse> {
+  console.log('HttpScraper: GET', url, 'formats:', options.formats.join(','));
+
+  checkUrl(url, options.policy);
+  const res = await axios.get<string>(url, {
+    ...requestGuard(options.policy),
+    responseType: 'text',
+    timeout: 30_000,
+    maxContentLength: MAX_HTML_BYTES,
+    headers: {
+      'User-Agent': 'saas-image-crawl/1.0.0',
+      Accept: 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.8',
+    },
+  });
+
+  const html = typeof res.data === 'string' ? res.data : String(res.data ?? '');
+  // Resolve relative links against the final URL (after redirects)
+  const finalUrl: string = res.request?.res?.responseUrl ?? url;
+  const doc = new JSDOM(html, { url: finalUrl }).window.document;
+
+  const out: FirecrawlResponse = {};
+
+  if (options.formats.includes('rawHtml')) out.rawHtml = html;
+
+  if (options.formats.includes('links')) {
+    const links = new Set<string>();
+    doc.querySelectorAll('a[href]').forEach((a) => {
+      try {
+        const abs = new URL(a.getAttribute('href')!, finalUrl);
+        if (/^https?:$/.test(abs.protocol)) links.add(abs.href);
+      } catch {
+        /* ignore malformed hrefs */
+      }
+    });
+    out.links = [...links];
+    console.log('HttpScraper: Links found:', out.links.length);
+  }
+
+  if (options.formats.includes('metadata')) {
+    const meta = (sel: string) => doc.querySelector(sel)?.getAttribute('content') ?? undefined;
+    out.metadata = {
+      title: doc.title || undefined,
+      description: meta('meta[name="description"]'),
+      language: doc.documentElement.getAttribute('lang') ?? undefined,
+      ogTitle: meta('meta[property="og:title"]'),
+      ogSiteName: meta('meta[property="og:site_name"]'),
+      ogImage: meta('meta[property="og:image"]'),
+      sourceURL: url,
+      statusCode: res.status,
+    };
+  }
+
+  return out;
+}
+
+export const httpScraper: Scraper = {
+  name: 'http',
+  scrape: httpScrape,
+};
@@ -0,0 +1,33 @@
+import { APIGatewayProxyEventV2, APIGatewayProxyHandlerV2, APIGatewayProxyResultV2 } from 'aws-lambda';
+import { CrawlError, errorBody, toCrawlError } from './errors';
+import { authenticate, Tenant } from './tenants';
+
+/** JSON API Gateway response. */
+export const json = (statusCode: number, body: unknown, headers: Record<string, string> = {}) => ({
+  statusCode,
+  headers: { 'Content-Type': 'application/json', ...headers },
+  body: JSON.stringify(body),
+});
+
+/** A CrawlError as a response: its status, `{ code, error, … }` and Retry-After. */
+export const errorResponse = (error: CrawlError, extra: Record<string, unknown> = {}) =>
+  json(
+    error.status,
+    { ...extra, ...errorBody(error) },
+    error.retryAfter !== undefined ? { 'Retry-After': String(error.retryAfter) } : {}
+  );
+
+/** A handler that runs for an authenticated tenant; a bad API key is a 401 before it runs. */
+export const withTenant =
+  (
+    fn: (event: APIGatewayProxyEventV2, tenant: Tenant) => Promise<APIGatewayProxyResultV2>
+  ): APIGatewayProxyHandlerV2 =>
+  async (event) => {
+    let tenant: Tenant;
+    try {
+      tenant = await authenticate(event);
+    } catch (err) {
+      return errorResponse(toCrawlError(err));
+    }
+    return fn(event, tenant);
+  };
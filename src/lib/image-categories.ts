@@ -0,0 +1,68 @@
+/* -----------------------------------------------------------
+   What kind of image is it?
+   -----------------------------------------------------------
+   Set by classifyImages (AI) or heuristicClassifyImage; the
+   category feeds the `ai` scoring factor and the `categories`
+   request filter.
+----------------------------------------------------------- */
+
+export type ImageCategory =
+  | 'screenshot'    // dashboard / app UI screenshot
+  | 'widget'        // embeddable widget, feed, review box
+  | 'mockup'        // UI shown on a device / in a frame
+  | 'stock_photo'
+  | 'illustration'
+  | 'logo'          // logo, badge, award, rating
+  | 'people';       // headshots, team and customer photos
+
+export const IMAGE_CATEGORIES: ImageCategory[] = [
+  'screenshot',
+  'widget',
+  'mockup',
+  'stock_photo',
+  'illustration',
+  'logo',
+  'people',
+];
+
+export const isImageCategory = (c: unknown): c is ImageCategory =>
+  typeof c === 'string' && (IMAGE_CATEGORIES as string[]).includes(c);
+
+export interface ImageClassification {
+  url: string;
+  category: ImageCategory;
+  /** 0–1 */
+  confidence: number;
+  /** Set when the model gave up and the heuristic answer was used */
+  error?: string;
+}
+
+/** How much each category is what we are looking for (product UI = 1) */
+const CATEGORY_RELEVANCE: Record<ImageCategory, number> = {
+  screenshot: 1,
+  widget: 0.9,
+  mockup: 0.9,
+  illustration: 0.35,
+  stock_photo: 0.15,
+  people: 0.1,
+  logo: 0,
+};
+
+/**
+ * 0–1 relevance for the scorer; low confidence pulls it towards 0.5
+ * ("no opinion").
+ */
+export function categoryRelevance({ category, confidence }: Pick<ImageClassification, 'category' | 'confidence'>) {
+  return 0.5 + (CATEGORY_RELEVANCE[category] - 0.5) * confidence;
+}
+
+/** Validate the `categories` request option. */
+export function parseCategories(raw: unknown): ImageCategory[] | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (!Array.isArray(raw) || raw.length === 0) throw new Error('categories must be a non-empty array');
+  const bad = raw.filter((c) => !isImageCategory(c));
+  if (bad.length) {
+    throw new Error(`categories: unknown ${bad.join(', ')} (known: ${IMAGE_CATEGORIES.join(', ')})`);
+  }
+  return [...new Set(raw as ImageCategory[])];
+}
@@ -0,0 +1,184 @@
+import axios from 'axios';
+import { createLimiter, Limiter } from './concurrency';
+import { createStageTimer, StageTimer } from './timing';
+import { RobotsGuard } from './robots';
+import { detectImageFormat, ImageFormat } from './image-format';
+import { checkUrl, requestGuard, UrlPolicy } from './url-policy';
+import { envNumber } from './limits';
+
+/* -----------------------------------------------------------
+   Shared image download layer
+   -----------------------------------------------------------
+   Every stage (hash, probe, convert, upload) asks the fetcher
+   for bytes; each URL is downloaded once per crawl as long as
+   its bytes stay cached. The cache holds at most maxCacheBytes
+   (least recently used go first); stages evict what they no
+   longer need.
+----------------------------------------------------------- */
+
+export interface FetchedImage {
+  url: string;
+  buffer: Buffer;
+  /** Response Content-Type, lower-cased, without parameters */
+  contentType?: string;
+  /** Response Content-Length header, if the server sent one */
+  contentLength?: number;
+  /** Sniffed from the bytes; undefined = not an image (e.g. an HTML error page) */
+  format?: ImageFormat;
+}
+
+export interface ImageFetcherOptions {
+  /** Downloads in flight across all hosts */
+  concurrency?: number;
+  /** Downloads in flight per hostname */
+  perHost?: number;
+  /** Responses larger than this are aborted */
+  maxBytes?: number;
+  /** Downloaded bytes kept in memory for later stages */
+  maxCacheBytes?: number;
+  timeoutMs?: number;
+  /** robots.txt rules of the image hosts (Crawl-delay applies to pages only) */
+  robots?: RobotsGuard;
+  /** Request `url_policy` (private addresses are always refused) */
+  policy?: UrlPolicy;
+}
+
+export const DEFAULT_FETCH_OPTIONS: Required<Omit<ImageFetcherOptions, 'robots' | 'policy'>> = {
+  concurrency: envNumber('IMAGE_FETCH_CONCURRENCY', 8),
+  perHost: envNumber('IMAGE_FETCH_PER_HOST', 4),
+  maxBytes: envNumber('IMAGE_FETCH_MAX_BYTES', 15 * 1024 * 1024),
+  maxCacheBytes: envNumber('IMAGE_FETCH_CACHE_BYTES', 256 * 1024 * 1024),
+  timeoutMs: 10_000,
+};
+
+/** Inline images (e.g. serialised <svg>) travel as data: URLs */
+function decodeDataUrl(url: string): FetchedImage {
+  const m = /^data:([^;,]*)((?:;[^;,]*)*?),(.*)$/s.exec(url);
+  if (!m) throw new Error('malformed data: URL');
+  const isBase64 = /;base64/i.test(m[2]);
+  const buffer = isBase64 ? Buffer.from(m[3], 'base64') : Buffer.from(decodeURIComponent(m[3]));
+  const contentType = m[1].toLowerCase() || undefined;
+  return { url, buffer, contentType, contentLength: buffer.length, format: detectImageFormat(buffer, contentType) };
+}
+
+/**
+ * Create a per-crawl fetcher. Downloads are cached by URL (as promises, so
+ * concurrent callers share one request), bounded by a global pool and a
+ * per-host pool, and timed under the `download` stage. An evicted URL is
+ * downloaded again if a later stage asks for it.
+ */
+export function createImageFetcher(
+  options: ImageFetcherOptions = {},
+  timer: StageTimer = createStageTimer()
+) {
+  const opts = { ...DEFAULT_FETCH_OPTIONS, ...options };
+  const pool = createLimiter(opts.concurrency);
+  const hostPools = new Map<string, Limiter>();
+  const cache = new Map<string, Promise<FetchedImage>>();
+  // byte size of each settled entry, least recently used first
+  const sizes = new Map<string, number>();
+  let cachedBytes = 0;
+  const requested = new Set<string>();
+
+  const evict = (url: string) => {
+    cache.delete(url);
+    cachedBytes -= sizes.get(url) ?? 0;
+    sizes.delete(url);
+  };
+
+  const remember = (url: string, pending: Promise<FetchedImage>) => {
+    evict(url);
+    cache.set(url, pending);
+    pending.then(
+      (image) => {
+        if (cache.get(url) !== pending) return; // evicted or replaced meanwhile
+        sizes.set(url, image.buffer.length);
+        cachedBytes += image.buffer.length;
+        for (const oldest of sizes.keys()) {
+          if (cachedBytes <= opts.maxCacheBytes) break;
+          evict(oldest);
+        }
+      },
+      () => undefined // failures stay cached (and cost nothing)
+    );
+  };
+
+  const hostPool = (url: string) => {
+    const host = new URL(url).hostname; // '' for data: URLs – one shared pool
+    let limiter = hostPools.get(host);
+    if (!limiter) {
+      limiter = createLimiter(opts.perHost);
+      hostPools.set(host, limiter);
+    }
+    return limiter;
+  };
+
+  const download = async (url: string): Promise<FetchedImage> => {
+    if (url.startsWith('data:')) return decodeDataUrl(url);
+    checkUrl(url, opts.policy);
+    await opts.robots?.check(url, { pace: false });
+
+    const res = await axios.get<ArrayBuffer>(url, {
+      ...requestGuard(opts.policy),
+      responseType: 'arraybuffer',
+      timeout: opts.timeoutMs,
+      maxContentLength: opts.maxBytes,
+      maxBodyLength: opts.maxBytes,
+    });
+
+    const rawType = res.headers['content-type'];
+    const rawLength = res.headers['content-length'];
+    const buffer = Buffer.from(new Uint8Array(res.data));
+    const contentType = typeof rawType === 'string' ? rawType.split(';')[0].trim().toLowerCase() : undefined;
+    return {
+      url,
+      buffer,
+      contentType,
+      contentLength: rawLength !== undefined ? Number(rawLength) : undefined,
+      format: detectImageFormat(buffer, contentType),
+    };
+  };
+
+  return {
+    timer,
+
+    /** Download `url` once; later calls resolve from cache (or re-reject). */
+    get(url: string): Promise<FetchedImage> {
+      requested.add(url);
+      const cached = cache.get(url);
+      if (cached) {
+        // most recently used last
+        const bytes = sizes.get(url);
+        if (bytes !== undefined) {
+          sizes.delete(url);
+          sizes.set(url, bytes);
+        }
+        return cached;
+      }
+      const pending = hostPool(url)(() => pool(() => timer.time('download', () => download(url))));
+      remember(url, pending);
+      return pending;
+    },
+
+    /** Seed the cache with bytes we already have (e.g. after conversion). */
+    put(url: string, image: Omit<FetchedImage, 'url'>) {
+      const format = image.format ?? detectImageFormat(image.buffer, image.contentType);
+      remember(url, Promise.resolve({ url, ...image, format }));
+    },
+
+    /** Drop the bytes of `url` – no later stage needs them. */
+    evict,
+
+    /** Number of distinct URLs requested so far */
+    get size() {
+      return requested.size;
+    },
+
+    /** Bytes held by the cache right now */
+    get cachedBytes() {
+      return cachedBytes;
+    },
+  };
+}
+
+export type ImageFetcher = ReturnType<typeof createImageFetcher>;
@@ -0,0 +1,77 @@
+/* -----------------------------------------------------------
+   Image format detection from the downloaded bytes
+   -----------------------------------------------------------
+   URLs lie (`/image?id=3`, `photo.jpg` served as WebP, an HTML
+   404 page with status 200), so the format is sniffed from the
+   magic bytes. The response Content-Type only helps with SVG,
+   which is text and has no fixed signature.
+----------------------------------------------------------- */
+
+export type ImageFormat = 'jpeg' | 'png' | 'gif' | 'webp' | 'avif' | 'heic' | 'tiff' | 'bmp' | 'ico' | 'svg';
+
+/** File extension and MIME type we store each format under */
+export const FORMAT_INFO: Record<ImageFormat, { ext: string; contentType: string }> = {
+  jpeg: { ext: 'jpg', contentType: 'image/jpeg' },
+  png: { ext: 'png', contentType: 'image/png' },
+  gif: { ext: 'gif', contentType: 'image/gif' },
+  webp: { ext: 'webp', contentType: 'image/webp' },
+  avif: { ext: 'avif', contentType: 'image/avif' },
+  heic: { ext: 'heic', contentType: 'image/heic' },
+  tiff: { ext: 'tiff', contentType: 'image/tiff' },
+  bmp: { ext: 'bmp', contentType: 'image/bmp' },
+  ico: { ext: 'ico', contentType: 'image/x-icon' },
+  svg: { ext: 'svg', contentType: 'image/svg+xml' },
+};
+
+/** What the vision models accept (classification, alt text) */
+export const AI_READABLE_FORMATS: ImageFormat[] = ['jpeg', 'png', 'webp', 'gif'];
+
+/** ISO-BMFF brands (the `ftyp` box) of still-image HEIF files */
+const AVIF_BRANDS = new Set(['avif', 'avis']);
+const HEIC_BRANDS = new Set(['heic', 'heix', 'heim', 'heis', 'mif1', 'msf1']);
+
+/** How much of a text file we look at for an <svg> root */
+const SVG_SNIFF_BYTES = 4096;
+
+const startsWith = (buf: Buffer, bytes: number[], offset = 0) =>
+  buf.length >= offset + bytes.length && bytes.every((b, i) => buf[offset + i] === b);
+
+const ascii = (buf: Buffer, start: number, end: number) => buf.toString('latin1', start, end);
+
+/** XML prolog, comments and doctype skipped, is the root element <svg>? */
+function looksLikeSvg(buf: Buffer, declared?: string): boolean {
+  const text = buf.toString('utf8', 0, SVG_SNIFF_BYTES).replace(/^\uFEFF/, '');
+  const root = text.replace(/^(\s+|<\?xml[\s\S]*?\?>|<!--[\s\S]*?-->|<!DOCTYPE[^>]*>)*/i, '');
+  if (/^<svg[\s>]/i.test(root)) return true;
+  // a long comment header can push the root past the sniff window
+  return declared === 'image/svg+xml' && !/<html[\s>]/i.test(text) && /<svg[\s>]/i.test(text);
+}
+
+/**
+ * Format of `buffer`, or undefined when it is not an image we know
+ * (HTML error pages, JSON, empty bodies, truncated downloads).
+ * `contentType` is the response header, lower-cased, without parameters.
+ */
+export function detectImageFormat(buffer: Buffer, contentType?: string): ImageFormat | undefined {
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) return 'jpeg';
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'png';
+  if (ascii(buffer, 0, 6) === 'GIF87a' || ascii(buffer, 0, 6) === 'GIF89a') return 'gif';
+  if (ascii(buffer, 0, 4) === 'RIFF' && ascii(buffer, 8, 12) === 'WEBP') return 'webp';
+  if (ascii(buffer, 4, 8) === 'ftyp') {
+    // major brand, then the compatible brands up to the end of the box
+    const boxEnd = Math.min(buffer.readUInt32BE(0), buffer.length, 64);
+    const brands = [ascii(buffer, 8, 12)];
+    for (let i = 16; i + 4 <= boxEnd; i += 4) brands.push(ascii(buffer, i, i + 4));
+    if (brands.some((b) => AVIF_BRANDS.has(b))) return 'avif';
+    if (brands.some((b) => HEIC_BRANDS.has(b))) return 'heic';
+    return undefined; // MP4 / MOV
+  }
+  if (startsWith(buffer, [0x49, 0x49, 0x2a, 0x00]) || startsWith(buffer, [0x4d, 0x4d, 0x00, 0x2a])) return 'tiff';
+  if (ascii(buffer, 0, 2) === 'BM' && buffer.length >= 26) return 'bmp';
+  if (startsWith(buffer, [0x00, 0x00, 0x01, 0x00]) && buffer.length >= 22) return 'ico';
+  if (looksLikeSvg(buffer, contentType)) return 'svg';
+  return undefined;
+}
+
+export const isAiReadable = (format?: ImageFormat): boolean =>
+  !!format && AI_READABLE_FORMATS.includes(format);
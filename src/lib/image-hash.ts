@@ -1,352 +1,258 @@
-import axios from 'axios';
-import imageHash from 'image-hash';
-import crypto from 'crypto';
 import { RawImage } from './html-images';
 import probe from 'probe-image-size';
-import { putObject, putBinaryObject } from './s3';
+import { putBinaryObject } from './s3';
 import path from 'path';
-import sharp from 'sharp';
+import { mapLimit } from './concurrency';
+import { scoreImage, ScoreWeights } from './scoring';
+import { FetchedImage, ImageFetcher } from './image-fetch';
+import { detectImageFormat, FORMAT_INFO, ImageFormat, isAiReadable } from './image-format';
+import { transformImage, TransformedImage, TransformOptions } from './transform';
+import { ImageDerivative } from './types';
+import {
+  DEFAULT_HASH_ALGORITHM,
+  DEFAULT_HASH_THRESHOLD,
+  HashAlgorithm,
+  hashImage,
+  ImageHash,
+  isNearDuplicate,
+} from './phash';
 
-/** Hamming distance between two hex strings */
-const ham = (a: string, b: string) =>
-  (BigInt('0x' + a) ^ BigInt('0x' + b)).toString(2).replace(/0/g, '').length;
+/** An image that made it through dedupe */
+export type HashedImage = RawImage & {
+  hash: string;
+  hashAlgorithm: ImageHash['algorithm'];
+  /** Original (pre-S3) URL – key into the fetcher cache */
+  sourceUrl?: string;
+  /** Downloaded size (output size after upload) */
+  bytes?: number;
+  /** Pixel size, set by filterImagesByDimension (output size after upload) */
+  dimensions?: { width: number; height: number };
+  /** MIME type of the uploaded copy */
+  contentType?: string;
+  /** Detected from the downloaded bytes (the uploaded copy's after upload) */
+  format?: ImageFormat;
+  /** Thumbnails, set by uploadAllImagesToS3 */
+  derivatives?: ImageDerivative[];
+};
 
-/** Compute pHash; fall back to SHA-256 if the library fails */
-async function getHash(url: string): Promise<string> {
-  try {
-    return await new Promise<string>((res, rej) => {
-      imageHash.imageHash(url, 16, true, (err: any, hash: string) => {
-        if (err) rej(err);
-        else res(hash);
-      });
-    });
-  } catch {
-    // pHash failed (SVG, 403, etc.) – fall back to fast SHA-256 of the URL
-    return crypto.createHash('sha256').update(url).digest('hex');
-  }
+export interface DedupeOptions {
+  algorithm?: HashAlgorithm;
+  /** Max Hamming distance (of 64 bits) still treated as duplicate */
+  threshold?: number;
+  /** Stop after this many uniques */
+  limit?: number;
+}
+
+export interface PreselectOptions {
+  /** Candidates downloaded at most (150 default) */
+  max?: number;
+  /** Keep icon / logo files (the caller asked for the `logo` category) */
+  keepLogos?: boolean;
+  weights?: Partial<ScoreWeights>;
 }
 
+/** Never product images: tracking pixels, spacers, sprites, favicons */
+const CHROME_FILENAME = /(^|[^a-z])(favicon|sprites?|spacer|placeholder|pixel|1x1)([^a-z]|$)/i;
+const LOGO_FILENAME = /(^|[^a-z])(icons?|logos?)([^a-z]|$)/i;
+/** Declared widths (srcset `w`) below this are icons, whatever the name */
+const MIN_DECLARED_WIDTH = 100;
+
+/** Uploads in flight in step 4d */
+const UPLOAD_CONCURRENCY = 4;
+/** Images downloaded and hashed at once while deduping */
+const HASH_CONCURRENCY = 8;
+
 /**
- * Download each image (GET), compute pHash (or SHA-256), drop near duplicates.
- * - Check Content-Length and filter out images under 20kb
- * - Keep images without Content-Length for later dimension checking
- * - Distance ≤ 8 treated as duplicate.
- * - Stops after `limit` uniques (50 default).
+ * Download each image (via the shared fetcher), hash its pixels, drop near
+ * duplicates. Small files are not dropped here – byte size is a scoring factor.
+ * - Distance ≤ `threshold` (8 default) treated as duplicate.
+ * - Stops downloading after `limit` uniques (50 default).
+ * Bytes of duplicates and non-images are evicted from the fetcher.
  */
 export async function dedupeImages(
   imgs: RawImage[],
-  limit = 50
-): Promise<(RawImage & { hash: string; hasContentLength?: boolean })[]> {
-  const uniques: { img: RawImage; hash: string; hasContentLength?: boolean }[] = [];
-
-  for (const img of imgs) {
+  fetcher: ImageFetcher,
+  {
+    algorithm = DEFAULT_HASH_ALGORITHM,
+    threshold = DEFAULT_HASH_THRESHOLD,
+    limit = 50,
+  }: DedupeOptions = {}
+): Promise<HashedImage[]> {
+  const hashOne = async (img: RawImage) => {
     try {
-      const res = await axios.get<ArrayBuffer>(img.url, {
-        responseType: 'arraybuffer',
-        timeout: 10_000,
-      });
-
-      // Check Content-Length
-      const contentLength = res.headers['content-length'];
-      if (contentLength) {
-        const sizeInBytes = parseInt(contentLength, 10);
-        if (sizeInBytes < 20 * 1024) { // Under 20kb
-          continue;
-        }
+      const file = await fetcher.get(img.url);
+      if (!file.format) {
+        console.info(`dedupeImages: not an image (${file.contentType ?? 'no content-type'}): ${img.url}`);
+        fetcher.evict(img.url);
+        return undefined;
       }
-
-      const canonical = img.url.split('?')[0];   // ignore ?w=1440&fm=webp
-      const hash = await getHash(canonical);
-      if (uniques.some((u) => ham(u.hash, hash) <= 8)) continue; // near-dup
-
-      uniques.push({ 
-        img, 
-        hash, 
-        hasContentLength: !!contentLength 
-      });
-      if (uniques.length >= limit) break;
+      const hash = await fetcher.timer.time('hash', () => hashImage(file.buffer, algorithm));
+      return { img, hash, bytes: file.buffer.length, format: file.format };
     } catch (err) {
       /* ignore 403/404/timeout/etc. */
+      return undefined;
     }
-  }
+  };
 
-  return uniques.map((u) => ({ ...u.img, hash: u.hash, hasContentLength: u.hasContentLength }));
-}
-
-/**
- * Additional filtering after deduplication:
- * - Remove images with icon/logo in filename
- * - For images without Content-Length: check dimensions (at least 300px in one dimension)
- */
-export async function filterImages(
-  imgs: (RawImage & { hash: string; hasContentLength?: boolean })[]
-): Promise<(RawImage & { hash: string })[]> {
-  const filtered: (RawImage & { hash: string })[] = [];
-
-  for (const img of imgs) {
-    console.info(`filterImages: checking ${img.url}`);
-    
-    // Remove images with icon/logo in filename
-    const filename = img.url.toLowerCase();
-    if (filename.includes('icon') || filename.includes('logo')) {
-      console.info(`filterImages: filtered out ${img.url} - contains icon/logo in filename`);
-      continue;
-    }
-
-    // For images without Content-Length, check dimensions
-    if (!img.hasContentLength) {
-      console.info(`filterImages: ${img.url} has no Content-Length, checking dimensions`);
-      try {
-        const res = await axios.get<ArrayBuffer>(img.url, {
-          responseType: 'arraybuffer',
-          timeout: 10_000,
-        });
-
-        let info;
-        if (img.url.toLowerCase().endsWith('.svg')) {
-          // SVG: decode buffer to string
-          const svgString = Buffer.from(res.data).toString('utf-8');
-          info = await probe(svgString);
-        } else {
-          // Other formats: convert ArrayBuffer to Buffer using Uint8Array
-          info = await probe(Buffer.from(new Uint8Array(res.data)));
-        }
-        console.info(`filterImages: ${img.url} dimensions: ${info?.width}x${info?.height}`);
-        
-        if (!info || (info.width < 300 && info.height < 300)) {
-          console.info(`filterImages: filtered out ${img.url} - dimensions too small (${info?.width}x${info?.height})`);
-          continue; // Skip if both dimensions are under 300px
-        }
-      } catch (err) {
-        console.info(`filterImages: dimension check failed for ${img.url} - keeping image: ${err}`);
-        // Do not continue; keep the image if dimension check fails
+  // a window at a time, compared in discovery order so the first occurrence wins
+  const uniques: { img: RawImage; hash: ImageHash; bytes: number; format: ImageFormat }[] = [];
+  for (let i = 0; i < imgs.length && uniques.length < limit; i += HASH_CONCURRENCY) {
+    const hashed = await Promise.all(imgs.slice(i, i + HASH_CONCURRENCY).map(hashOne));
+    for (const h of hashed) {
+      if (!h) continue;
+      if (uniques.length >= limit || uniques.some((u) => isNearDuplicate(u.hash, h.hash, threshold))) {
+        // near-dup (or over the limit) – its bytes are not needed again
+        if (!uniques.some((u) => u.img.url === h.img.url)) fetcher.evict(h.img.url);
+        continue;
       }
-    } else {
-      console.info(`filterImages: ${img.url} has Content-Length, skipping dimension check`);
+      uniques.push(h);
     }
-
-    // Keep the image (has Content-Length or passed dimension check)
-    console.info(`filterImages: keeping ${img.url}`);
-    filtered.push({ url: img.url, landingPage: img.landingPage, alt: img.alt, context: img.context, hash: img.hash });
   }
 
-  return filtered;
+  return uniques.map((u) => ({
+    ...u.img,
+    hash: u.hash.hash,
+    hashAlgorithm: u.hash.algorithm,
+    bytes: u.bytes,
+    format: u.format,
+  }));
 }
 
 /**
- * Check if image URL has valid format parameters in query string
- * Allowed formats: webp, jpeg, png
- * Format parameters: format=, fm=, f=, tr=f-, auto=format, imformat=, imgeng=/f_
+ * Cheap pre-download cut: drop page chrome by file name and declared width,
+ * then keep the `max` best candidates by what the page says about them
+ * (source, position, alt text, file name), in discovery order.
  */
-export function hasValidFormat(url: string): boolean {
-  try {
-    const urlObj = new URL(url);
-    const searchParams = urlObj.searchParams;
-    
-    // Check for format parameters
-    const formatParams = ['format', 'fm', 'f'];
-    const transformParams = ['tr', 'auto', 'imformat'];
-    const imgengParam = 'imgeng';
-    
-    // Check direct format parameters
-    for (const param of formatParams) {
-      const value = searchParams.get(param);
-      if (value && ['webp', 'jpeg', 'png'].includes(value.toLowerCase())) {
-        return true;
-      }
-    }
-    
-    // Check transform parameters
-    for (const param of transformParams) {
-      const value = searchParams.get(param);
-      if (value && value.toLowerCase().includes('format')) {
-        // Extract format from transform value
-        const formatMatch = value.match(/(webp|jpeg|png)/i);
-        if (formatMatch) {
-          return true;
-        }
-      }
-    }
-    
-    // Check tr=f- format (e.g., tr=f-webp)
-    const trValue = searchParams.get('tr');
-    if (trValue && trValue.startsWith('f-')) {
-      const format = trValue.substring(2).toLowerCase();
-      if (['webp', 'jpeg', 'png'].includes(format)) {
-        return true;
-      }
-    }
-    
-    // Check imgeng parameter (e.g., imgeng=/f_webp)
-    const imgengValue = searchParams.get(imgengParam);
-    if (imgengValue && imgengValue.includes('/f_')) {
-      const formatMatch = imgengValue.match(/\/f_(webp|jpeg|png)/i);
-      if (formatMatch) {
-        return true;
-      }
-    }
-    
-    return false;
-  } catch {
-    // If URL parsing fails, assume no valid format
-    return false;
-  }
+export function preselectImages<T extends RawImage>(
+  imgs: T[],
+  { max = 150, keepLogos = false, weights }: PreselectOptions = {}
+): T[] {
+  const kept = imgs.filter((img) => {
+    if (img.url.startsWith('data:')) return true;
+    const file = img.url.split('?')[0].split('/').pop() ?? '';
+    if (CHROME_FILENAME.test(file) || (!keepLogos && LOGO_FILENAME.test(file))) return false;
+    return img.width === undefined || img.width >= MIN_DECLARED_WIDTH;
+  });
+  if (kept.length <= max) return kept;
+
+  const best = new Set(
+    kept
+      .map((img, i) => ({ i, score: scoreImage(img, weights).score }))
+      .sort((a, b) => b.score - a.score || a.i - b.i)
+      .slice(0, max)
+      .map(({ i }) => i)
+  );
+  return kept.filter((_, i) => best.has(i));
+}
+
+/** Width/height from cached bytes; undefined if the format is unknown. */
+async function dimensionsOf(fetcher: ImageFetcher, url: string) {
+  const { buffer } = await fetcher.get(url);
+  return fetcher.timer.time('probe', async () => probe.sync(buffer) ?? undefined);
 }
 
 /**
- * Convert AVIF images to WebP, upload to S3, and update the image list with new S3 URLs.
+ * Can the vision models read this download or image (JPEG, PNG, WebP, GIF)?
+ * Decided by its bytes, so S3 keys and CDN URLs without an extension qualify
+ * and a `.png` URL serving an HTML page does not.
  */
-export async function convertAvifImagesToWebpAndUpload(
-  imgs: (RawImage & { hash: string })[],
-  bucket: string
-): Promise<(RawImage & { hash: string })[]> {
-  const out: (RawImage & { hash: string })[] = [];
-  for (const img of imgs) {
-    if (img.url.toLowerCase().endsWith('.avif')) {
-      try {
-        const res = await axios.get<ArrayBuffer>(img.url, {
-          responseType: 'arraybuffer',
-          timeout: 10_000,
-        });
-        const webpBuffer = await sharp(Buffer.from(res.data)).webp().toBuffer();
-        // Generate a new S3 key (replace .avif with .webp)
-        const urlObj = new URL(img.url);
-        const originalFilename = path.basename(urlObj.pathname); // This preserves %20
-        const baseName = originalFilename.replace('.avif', '');
-        const s3Key = `all/${baseName}-${img.hash}.webp`;
-        // Upload to S3
-        await putBinaryObject(s3Key, webpBuffer, 'image/webp', 86400);
-        // Construct the S3 URL (assuming public bucket or CloudFront)
-        const s3Url = `https://${bucket}.s3.amazonaws.com/${s3Key.replace(/%20/g, '%2520').replace(/ /g, '%20')}`;
-        out.push({ ...img, url: s3Url });
-        continue;
-      } catch (err) {
-        console.info(`convertAvifImagesToWebpAndUpload: failed to convert/upload ${img.url}: ${err}`);
-        // If conversion/upload fails, keep the original AVIF image
-        out.push(img);
-        continue;
-      }
-    }
-    out.push(img);
-  }
-  return out;
+export function hasValidFormat(file: Pick<FetchedImage, 'format'>): boolean {
+  return isAiReadable(file.format);
 }
 
 /**
- * Upload all unique images to S3:
- * - Convert AVIF to WebP, upload, and update URL
- * - Upload all other formats as-is, update URL
- * Returns new image list with S3 URLs.
+ * Upload all unique images to S3, normalised per `transform` (see
+ * transform.ts), with their thumbnails next to them. Bytes come from the
+ * fetcher cache (the same bytes that were hashed); the uploaded copy replaces
+ * them under the S3 URL so later stages never re-download. Images that cannot be
+ * decoded or uploaded keep their original URL. Keys start with `keyPrefix`
+ * (imagePrefix of the job's tenant).
+ * Returns new image list with S3 URLs, output size and derivatives.
  */
-export async function uploadAllImagesToS3(
-  imgs: (RawImage & { hash: string })[],
-  bucket: string
-): Promise<(RawImage & { hash: string })[]> {
-  const out: (RawImage & { hash: string })[] = [];
-  for (const img of imgs) {
+export async function uploadAllImagesToS3<T extends HashedImage>(
+  imgs: T[],
+  bucket: string,
+  fetcher: ImageFetcher,
+  keyPrefix: string,
+  transform: Partial<TransformOptions> = {}
+): Promise<T[]> {
+  const upload = async (key: string, image: TransformedImage) => {
+    await fetcher.timer.time('upload', () => putBinaryObject(key, image.buffer, image.contentType, 86400));
+    return `https://${bucket}.s3.amazonaws.com/${key.replace(/%20/g, '%2520').replace(/ /g, '%20')}`;
+  };
+
+  return mapLimit(imgs, UPLOAD_CONCURRENCY, async (img) => {
     try {
-      // Strip query string from URL for S3 key and download
-      const urlNoQuery = img.url.split('?')[0];
-      const res = await axios.get<ArrayBuffer>(urlNoQuery, {
-        responseType: 'arraybuffer',
-        timeout: 10_000,
+      const file = await fetcher.get(img.url);
+      const out = await fetcher.timer.time('convert', () => transformImage(file.buffer, transform)).catch((err) => {
+        // sharp cannot decode BMP / ICO – those go up unchanged
+        if (!file.format || !img.dimensions) throw err;
+        return { buffer: file.buffer, ...FORMAT_INFO[file.format], ...img.dimensions, thumbnails: [] };
       });
-      let buffer: Buffer;
-      let ext: string | undefined;
-      if (urlNoQuery.toLowerCase().endsWith('.avif')) {
-        buffer = await sharp(Buffer.from(res.data)).webp().toBuffer();
-        ext = 'webp';
-      } else {
-        buffer = Buffer.from(new Uint8Array(res.data));
-        // Try to get extension from path
-        ext = urlNoQuery.split('.').pop();
-        if (ext && ext.includes('/')) ext = undefined; // not a real extension
-        if (!ext || ext === urlNoQuery) {
-          // No extension in path, try to get from query params
-          try {
-            const urlObj = new URL(img.url);
-            const searchParams = urlObj.searchParams;
-            // Check for format parameters
-            const formatParams = ['format', 'fm', 'f'];
-            for (const param of formatParams) {
-              const value = searchParams.get(param);
-              if (value && ['webp', 'jpeg', 'jpg', 'png', 'gif', 'bmp', 'tiff', 'svg', 'avif'].includes(value.toLowerCase())) {
-                ext = value.toLowerCase();
-                break;
-              }
-            }
-            // Check transform parameters
-            if (!ext) {
-              const transformParams = ['tr', 'auto', 'imformat'];
-              for (const param of transformParams) {
-                const value = searchParams.get(param);
-                if (value && value.toLowerCase().includes('format')) {
-                  const formatMatch = value.match(/(webp|jpeg|jpg|png|gif|bmp|tiff|svg|avif)/i);
-                  if (formatMatch) {
-                    ext = formatMatch[1].toLowerCase();
-                    break;
-                  }
-                }
-              }
-            }
-            // Check tr=f- format (e.g., tr=f-webp)
-            if (!ext) {
-              const trValue = searchParams.get('tr');
-              if (trValue && trValue.startsWith('f-')) {
-                const format = trValue.substring(2).toLowerCase();
-                if (['webp', 'jpeg', 'jpg', 'png', 'gif', 'bmp', 'tiff', 'svg', 'avif'].includes(format)) {
-                  ext = format;
-                }
-              }
-            }
-            // Check imgeng parameter (e.g., imgeng=/f_webp)
-            if (!ext) {
-              const imgengValue = searchParams.get('imgeng');
-              if (imgengValue && imgengValue.includes('/f_')) {
-                const formatMatch = imgengValue.match(/\/f_(webp|jpeg|jpg|png|gif|bmp|tiff|svg|avif)/i);
-                if (formatMatch) {
-                  ext = formatMatch[1].toLowerCase();
-                }
-              }
-            }
-          } catch {}
-        }
-        if (!ext) ext = 'bin';
-        ext = ext.toLowerCase();
+
+      let baseName = `inline-${img.source ?? 'image'}`;
+      if (!img.url.startsWith('data:')) {
+        const urlObj = new URL(img.url.split('?')[0]);
+        const originalFilename = path.basename(urlObj.pathname); // This preserves %20
+        baseName = originalFilename.replace(path.extname(originalFilename), '');
+      }
+      // resized copies carry their width so they never overwrite the full size
+      const resized = !!img.dimensions && out.width < img.dimensions.width;
+      const url = await upload(`${keyPrefix}${baseName}-${img.hash}${resized ? `-w${out.width}` : ''}.${out.ext}`, out);
+      // step 5 reads the uploaded copy; the original is not needed again
+      const format = detectImageFormat(out.buffer, out.contentType);
+      fetcher.put(url, { buffer: out.buffer, contentType: out.contentType, format });
+      fetcher.evict(img.url);
+
+      const derivatives: ImageDerivative[] = [];
+      for (const thumb of out.thumbnails) {
+        derivatives.push({
+          url: await upload(`${keyPrefix}${baseName}-${img.hash}-w${thumb.width}.${thumb.ext}`, thumb),
+          width: thumb.width,
+          height: thumb.height,
+          bytes: thumb.buffer.length,
+          content_type: thumb.contentType,
+        });
       }
-      const urlObj = new URL(urlNoQuery);
-      const originalFilename = path.basename(urlObj.pathname); // This preserves %20
-      const baseName = originalFilename.replace(path.extname(originalFilename), '');
-      const s3Key = `all/${baseName}-${img.hash}.${ext}`;
-      await putBinaryObject(s3Key, buffer, `image/${ext}`, 86400);
-      const s3Url = `https://${bucket}.s3.amazonaws.com/${s3Key.replace(/%20/g, '%2520').replace(/ /g, '%20')}`;
-      out.push({ ...img, url: s3Url });
+
+      return {
+        ...img,
+        url,
+        sourceUrl: img.url,
+        contentType: out.contentType,
+        format,
+        bytes: out.buffer.length,
+        dimensions: { width: out.width, height: out.height },
+        ...(derivatives.length ? { derivatives } : {}),
+      };
     } catch (err) {
       console.info(`uploadAllImagesToS3: failed to upload ${img.url}: ${err}`);
       // If upload fails, keep the original image
-      out.push(img);
+      return img;
     }
-  }
-  return out;
+  });
 }
 
 /**
- * Filter S3 images by dimension (at least one dimension >= 300px), limit to 5.
+ * Keep images with at least one dimension >= `minSize` (300px) and record
+ * their pixel size for scoring. Works on cached bytes, before upload.
  */
-export async function filterS3ImagesByDimension(
-  imgs: (RawImage & { hash: string })[],
-): Promise<(RawImage & { hash: string })[]> {
-  const filtered: (RawImage & { hash: string })[] = [];
+export async function filterImagesByDimension(
+  imgs: HashedImage[],
+  fetcher: ImageFetcher,
+  minSize = 300
+): Promise<HashedImage[]> {
+  const filtered: HashedImage[] = [];
   for (const img of imgs) {
     try {
-      const info = await probe(img.url);
-      if (info && (info.width >= 300 || info.height >= 300)) {
-        filtered.push(img);
-        // Removed the limit of 5 images
+      const info = await dimensionsOf(fetcher, img.url);
+      if (info && (info.width >= minSize || info.height >= minSize)) {
+        filtered.push({ ...img, dimensions: { width: info.width, height: info.height } });
+      } else {
+        fetcher.evict(img.url);
       }
     } catch (err) {
-      console.info(`filterS3ImagesByDimension: failed to check ${img.url}: ${err}`);
-      // Optionally, keep images if dimension check fails
+      console.info(`filterImagesByDimension: failed to check ${img.url}: ${err}`);
     }
   }
   return filtered;
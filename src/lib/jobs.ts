@@ -0,0 +1,53 @@
+import { getObject, putObject, putObjectIf } from './s3';
+import { invalidRequest } from './errors';
+import { recordPrefix } from './tenants';
+import { CrawlRequest, JobRecord } from './types';
+
+/** Job ids end up in S3 keys – keep them to a safe alphabet. */
+const JOB_ID_RE = /^[A-Za-z0-9_-]{1,128}$/;
+
+const jobKey = (jobId: string, tenantId?: string) => `${recordPrefix(tenantId)}jobs/${jobId}.json`;
+
+export const isValidJobId = (jobId: string) => JOB_ID_RE.test(jobId);
+
+export const newJobId = () =>
+  `job_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+
+/** Persist a fresh job in `queued` state; fails if the id is taken (per tenant, `request.tenant_id`). */
+export async function createJob(jobId: string, request: CrawlRequest): Promise<JobRecord> {
+  const now = new Date().toISOString();
+  const job: JobRecord = {
+    job_id: jobId,
+    status: 'queued',
+    source_url: request.url,
+    request,
+    created_at: now,
+    updated_at: now,
+  };
+  if (!(await putObjectIf(jobKey(jobId, request.tenant_id), job, { ifNoneMatch: '*' }))) {
+    throw invalidRequest(`job ${jobId} already exists`, 'job_id');
+  }
+  return job;
+}
+
+/** Load one of a tenant's jobs; undefined if it does not exist (or belongs to another tenant). */
+export const getJob = (jobId: string, tenantId?: string) => getObject<JobRecord>(jobKey(jobId, tenantId));
+
+/**
+ * Merge `patch` into the stored record. Only the worker that owns the job
+ * writes to it, so a plain read-modify-write is sufficient.
+ */
+export async function updateJob(jobId: string, patch: Partial<JobRecord>, tenantId?: string): Promise<JobRecord> {
+  const current = await getJob(jobId, tenantId);
+  if (!current) throw new Error(`job ${jobId} not found`);
+
+  const next: JobRecord = { ...current, ...patch, updated_at: new Date().toISOString() };
+  await putObject(jobKey(jobId, tenantId), next);
+  return next;
+}
+
+/** Public view of a job – what GET /crawl/{job_id} and webhooks return. */
+export function jobView(job: JobRecord) {
+  const { request, ...rest } = job;
+  return rest;
+}
@@ -0,0 +1,17 @@
+import { LambdaClient, InvokeCommand } from '@aws-sdk/client-lambda';
+
+const lambda = new LambdaClient({});
+
+/**
+ * Fire-and-forget invocation of a Lambda function (InvocationType=Event).
+ * Lambda queues the event and retries on its own; we only wait for the 202.
+ */
+export async function invokeAsync(functionName: string, payload: unknown) {
+  await lambda.send(
+    new InvokeCommand({
+      FunctionName: functionName,
+      InvocationType: 'Event',
+      Payload: Buffer.from(JSON.stringify(payload)),
+    })
+  );
+}
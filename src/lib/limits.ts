@@ -0,0 +1,60 @@
+/* -----------------------------------------------------------
+   Per-request crawl budgets
+----------------------------------------------------------- */
+
+export interface CrawlLimits {
+  /** Child pages scraped after the link filter (step 3), all depths together */
+  max_pages: number;
+  /** Link levels followed from the homepage in step 3 (1 = homepage links only) */
+  max_depth: number;
+  /** Images kept after dedupe + dimension filter (step 4) */
+  max_images: number;
+  /** Images sent to each AI model (classification in step 4, alt text in step 5) */
+  max_ai_images: number;
+}
+
+export const DEFAULT_LIMITS: CrawlLimits = {
+  max_pages: 3,
+  max_depth: 1,
+  max_images: 5,
+  max_ai_images: 5,
+};
+
+/** Server-side ceilings – requests above these are clamped, not rejected. */
+export const MAX_LIMITS: CrawlLimits = {
+  max_pages: 10,
+  max_depth: 3,
+  max_images: 50,
+  max_ai_images: 20,
+};
+
+/** Positive number from the environment; `fallback` when unset, empty or invalid */
+export const envNumber = (name: string, fallback: number) => {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+};
+
+/** Pages scraped in parallel in step 3 (at least one) */
+export const SCRAPE_CONCURRENCY = Math.max(1, Math.floor(envNumber('SCRAPE_CONCURRENCY', 3)));
+
+/**
+ * Read the limit fields from a request body (or a stored request),
+ * falling back to defaults and clamping to the server maximums.
+ * Throws on non-integer / non-positive values.
+ */
+export function resolveLimits(body: Partial<Record<keyof CrawlLimits, unknown>> = {}): CrawlLimits {
+  const out = { ...DEFAULT_LIMITS };
+
+  for (const key of Object.keys(DEFAULT_LIMITS) as (keyof CrawlLimits)[]) {
+    const value = body[key];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+      throw new Error(`${key} must be a positive integer`);
+    }
+    out[key] = Math.min(value, MAX_LIMITS[key]);
+  }
+
+  // never analyse more images than we return
+  out.max_ai_images = Math.min(out.max_ai_images, out.max_images);
+  return out;
+}
@@ -0,0 +1,205 @@
+/* -----------------------------------------------------------
+   Rule-based link ranking (step 2)
+   -----------------------------------------------------------
+   The ruleset of FILTER_SYSTEM_PROMPT, done locally: normalise,
+   drop off-site / legal / account / resource / localised
+   pages, collapse /compare/*, score the rest by path keywords.
+   Runs before the link-filter model to shrink its input and is
+   the whole answer when the model is disabled or fails.
+----------------------------------------------------------- */
+
+/** Extra per-request patterns (request `link_rules`) */
+export interface LinkRules {
+  /** Always keep (overrides the built-in deny rules) and rank first */
+  allow?: string[];
+  /** Always drop */
+  deny?: string[];
+}
+
+export interface RankedLink {
+  url: string;
+  score: number;
+}
+
+/** Links handed to the link-filter model at most */
+export const MAX_RANKED_LINKS = 100;
+
+const MAX_PATTERNS = 50;
+
+/**
+ * Path segments that almost never carry product imagery. Whole segments
+ * only – `/team` is denied, `/teams` and `/guided-tour` are not.
+ */
+const DENY_RE =
+  /\/(privacy(-policy)?|terms(-of-(service|use)|-and-conditions)?|legal|gdpr|dpa|security|cookies?(-policy)?|imprint|impressum|about(-us)?|contact(-us)?|team|careers|jobs|press|news(room)?|investors?|login|log-in|signin|sign-in|signup|sign-up|register|trial|free-trial|demo|book-a-demo|subscribe|referrals?|affiliates?|partners?-program|blog|case-stud(y|ies)|customer-stor(y|ies)|stories|resources|ebooks?|whitepapers?|guides?|playbooks?|webinars?|events?|podcasts?|academy|docs|documentation|developers?|api|status|changelog|help|support|faq|pricing|plans|checkout|cart)(?=\/|$)/i;
+
+/** Path keywords that usually show the product, with their weight */
+const PREFER: [RegExp, number][] = [
+  [/(feature|product|platform|tour|how-it-works|showcase|overview)/i, 10],
+  [/(widget|gallery|embed|dashboard|solution|use-case)/i, 8],
+  [/(integration|app|plugin|example)/i, 4],
+];
+
+/** Comparison page families – keep only the most general one */
+const COMPARE_RE = /^\/(compare|vs|versus|alternatives?)(\/|-|$)/i;
+
+/** Query parameters that never change page content */
+const TRACKING_PARAM_RE = /^(utm_\w+|gclid|fbclid|msclkid|mc_cid|mc_eid|ref|_cb|_ga|_gl|hsa_\w+)$/i;
+
+/** ISO 639-1 codes seen as locale prefixes (`/de/`, `/pt-br/`) */
+const LANGUAGES = new Set(
+  'ar bg cs da de el en es et fi fr he hi hu ja ko lt lv ms nb nl no pl pt ro ru sk sl sr sv th tr uk vi zh'.split(' ')
+);
+/** Codes that double as product sections (`/hr/`, `/it/`, `/id/`): locales only with a region (`/it-it/`) */
+const AMBIGUOUS_LANGUAGES = new Set(['hr', 'it', 'id']);
+const LOCALE_SEGMENT_RE = /^([a-z]{2})(?:[-_]([a-z]{2}|hans|hant))?$/i;
+const LOCALE_PARAM_RE = /^(lang|locale|hl|lng)$/i;
+
+const hostKey = (host: string) => host.toLowerCase().replace(/^www\./, '');
+
+/**
+ * Canonical form used for dedupe: http(s) only, no fragment, no tracking
+ * params, no trailing slash (except the root). undefined if unusable.
+ */
+export function normalizeLink(link: string, base?: string): string | undefined {
+  let u: URL;
+  try {
+    u = new URL(link, base);
+  } catch {
+    return undefined;
+  }
+  if (!/^https?:$/.test(u.protocol)) return undefined;
+  u.hash = '';
+  for (const key of [...u.searchParams.keys()]) {
+    if (TRACKING_PARAM_RE.test(key)) u.searchParams.delete(key);
+  }
+  if (u.pathname.length > 1) u.pathname = u.pathname.replace(/\/+$/, '');
+  return u.href;
+}
+
+/** Locale of a URL (`de`, `pt-br`) from its first path segment or ?lang= */
+export function linkLocale(u: URL): string | undefined {
+  const first = u.pathname.split('/')[1] ?? '';
+  const m = LOCALE_SEGMENT_RE.exec(first);
+  const lang = m?.[1].toLowerCase();
+  if (lang && (LANGUAGES.has(lang) || (AMBIGUOUS_LANGUAGES.has(lang) && m?.[2]))) {
+    return first.toLowerCase().replace('_', '-');
+  }
+  for (const [key, value] of u.searchParams) {
+    if (LOCALE_PARAM_RE.test(key) && value) return value.toLowerCase();
+  }
+  return undefined;
+}
+
+/** Whether a path hits the built-in deny rules (shared with the sitemap candidates) */
+export function isDeniedPath(pathname: string): boolean {
+  return DENY_RE.test(pathname);
+}
+
+/**
+ * Does `/integrations/*` style `pattern` match the whole of `text`? `*`
+ * matches anything, case is ignored. Matched left to right without a
+ * RegExp: backtracking only to the last `*` keeps user patterns with many
+ * wildcards at O(pattern × text).
+ */
+export function globMatch(pattern: string, text: string): boolean {
+  const p = pattern.toLowerCase();
+  const t = text.toLowerCase();
+  let pi = 0;
+  let ti = 0;
+  let star = -1; // position of the last `*` seen …
+  let resume = 0; // … and where in `text` it currently stops
+  while (ti < t.length) {
+    if (p[pi] === '*') {
+      star = pi++;
+      resume = ti;
+    } else if (pi < p.length && p[pi] === t[ti]) {
+      pi++;
+      ti++;
+    } else if (star >= 0) {
+      pi = star + 1;
+      ti = ++resume;
+    } else {
+      return false;
+    }
+  }
+  while (p[pi] === '*') pi++;
+  return pi === p.length;
+}
+
+/**
+ * Patterns starting with `/` match the path (+ query); anything else is
+ * matched against the whole URL.
+ */
+function compileRules(patterns: string[] = []) {
+  return patterns.map((p) => (u: URL) => globMatch(p, p.startsWith('/') ? u.pathname + u.search : u.href));
+}
+
+/**
+ * Apply the rules to the homepage (and sitemap) links of `siteUrl`.
+ * Result is deduped and sorted best first; ties keep input order.
+ */
+export function rankLinks(links: string[], siteUrl: string, rules: LinkRules = {}): RankedLink[] {
+  const site = new URL(siteUrl);
+  const siteHost = hostKey(site.hostname);
+  const siteLocale = linkLocale(site);
+  const allow = compileRules(rules.allow);
+  const deny = compileRules(rules.deny);
+
+  const seen = new Set<string>();
+  const kept: (RankedLink & { path: string; compare: boolean })[] = [];
+
+  for (const link of links) {
+    const url = normalizeLink(link, siteUrl);
+    if (!url || seen.has(url)) continue;
+    seen.add(url);
+    const u = new URL(url);
+
+    if (hostKey(u.hostname) !== siteHost) continue; // off-site (incl. social)
+    if (u.pathname === '/' && !u.search) continue; // the homepage itself
+    if (deny.some((match) => match(u))) continue;
+
+    const forced = allow.some((match) => match(u));
+    if (!forced) {
+      if (isDeniedPath(u.pathname)) continue;
+      const locale = linkLocale(u);
+      if (locale && locale !== siteLocale) continue; // alternate language
+      if (/\.(pdf|zip|xml|json|txt|csv|docx?|xlsx?|pptx?|mp4|mp3|png|jpe?g|gif|svg|webp)$/i.test(u.pathname)) continue;
+    }
+
+    const depth = u.pathname.split('/').filter(Boolean).length;
+    let score = (forced ? 100 : 0) - depth;
+    for (const [re, weight] of PREFER) if (re.test(u.pathname)) score += weight;
+
+    kept.push({ url, score, path: u.pathname, compare: COMPARE_RE.test(u.pathname) });
+  }
+
+  // /compare/* and friends: only the most general page survives
+  const compare = kept.filter((l) => l.compare);
+  const general = compare.sort((a, b) => a.path.length - b.path.length)[0];
+
+  return kept
+    .filter((l) => !l.compare || l === general)
+    .sort((a, b) => b.score - a.score)
+    .map(({ url, score }) => ({ url, score }));
+}
+
+/** Validate the `link_rules` request option. */
+export function parseLinkRules(raw: unknown): LinkRules | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw !== 'object' || Array.isArray(raw)) throw new Error('link_rules must be an object');
+
+  const out: LinkRules = {};
+  for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (key !== 'allow' && key !== 'deny') throw new Error(`link_rules: unknown key ${key} (use allow, deny)`);
+    if (
+      !Array.isArray(value) ||
+      value.length > MAX_PATTERNS ||
+      !value.every((p) => typeof p === 'string' && p.length > 0 && p.length <= 200)
+    ) {
+      throw new Error(`link_rules.${key} must be an array of up to ${MAX_PATTERNS} patterns`);
+    }
+    out[key] = value as string[];
+  }
+  return out;
+}
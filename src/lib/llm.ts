@@ -0,0 +1,271 @@
+import http from 'http';
+import https from 'https';
+import OpenAI, { AzureOpenAI } from 'openai';
+import { passesUrlPolicy, socketLookup } from './url-policy';
+
+/* -----------------------------------------------------------
+   Provider / model selection for the AI steps
+   -----------------------------------------------------------
+   openai     – api.openai.com (OPENAI_API_KEY)
+   azure      – Azure OpenAI; `model` is the deployment name
+                (AZURE_OPENAI_ENDPOINT, AZURE_OPENAI_API_KEY,
+                 AZURE_OPENAI_API_VERSION)
+   compatible – any OpenAI-compatible endpoint, e.g. a local
+                vLLM / Ollama (LLM_COMPATIBLE_BASE_URL,
+                LLM_COMPATIBLE_API_KEY or per-request base_url)
+   heuristic  – deterministic, no network; see heuristics.ts
+
+   A per-request `base_url` gets the server's key for that
+   provider, so it must be one of the configured endpoints or
+   listed in LLM_ALLOWED_BASE_URLS (comma-separated). Those
+   lists are the operator's: an entry naming a private address
+   or internal host (a local Ollama) is used as is, any other
+   host must still resolve to public addresses on connect.
+----------------------------------------------------------- */
+
+export type LlmProviderName = 'openai' | 'azure' | 'compatible' | 'heuristic';
+
+export type AiStep = 'link_filter' | 'alt_text' | 'image_extract' | 'classify';
+
+export const LLM_PROVIDERS: LlmProviderName[] = ['openai', 'azure', 'compatible', 'heuristic'];
+export const AI_STEPS: AiStep[] = ['link_filter', 'alt_text', 'image_extract', 'classify'];
+
+/** Per-step override accepted in the request body (`ai.<step>`). */
+export interface ModelConfig {
+  provider?: LlmProviderName;
+  model?: string;
+  base_url?: string;
+}
+
+export type AiConfig = Partial<Record<AiStep, ModelConfig>>;
+
+export interface ResolvedModel {
+  provider: LlmProviderName;
+  model: string;
+  baseUrl?: string;
+}
+
+const DEFAULT_MODELS: Record<AiStep, string> = {
+  link_filter: 'gpt-4.1',
+  alt_text: 'gpt-4o-mini',
+  image_extract: 'gpt-4o-mini',
+  classify: 'gpt-4o-mini',
+};
+
+const isProvider = (p: unknown): p is LlmProviderName =>
+  typeof p === 'string' && (LLM_PROVIDERS as string[]).includes(p);
+
+const normalizeBaseUrl = (url: string) => url.trim().replace(/\/+$/, '');
+
+/** Endpoints a request may pick with `base_url` */
+export function allowedBaseUrls(): string[] {
+  const configured = [process.env.AZURE_OPENAI_ENDPOINT, process.env.LLM_COMPATIBLE_BASE_URL];
+  return [...configured, ...(process.env.LLM_ALLOWED_BASE_URLS ?? '').split(',')]
+    .filter((url): url is string => !!url?.trim())
+    .map(normalizeBaseUrl);
+}
+
+/**
+ * Request override → env (`LLM_PROVIDER`, `<STEP>_PROVIDER`, `<STEP>_MODEL`,
+ * e.g. ALT_TEXT_MODEL) → built-in default.
+ */
+export function resolveModel(step: AiStep, cfg: ModelConfig = {}): ResolvedModel {
+  const envStep = step.toUpperCase();
+  const envProvider = process.env[`${envStep}_PROVIDER`] ?? process.env.LLM_PROVIDER;
+
+  const provider = cfg.provider ?? (isProvider(envProvider) ? envProvider : 'openai');
+  const model = cfg.model ?? process.env[`${envStep}_MODEL`] ?? DEFAULT_MODELS[step];
+  return { provider, model, baseUrl: cfg.base_url };
+}
+
+/**
+ * Agent for a request-chosen endpoint: the DNS answer is checked when the
+ * socket connects, unless the allowlist names a private host outright.
+ */
+function endpointAgent(baseUrl: string): http.Agent | undefined {
+  if (!passesUrlPolicy(baseUrl)) return undefined;
+  const Agent = baseUrl.startsWith('https:') ? https.Agent : http.Agent;
+  return new Agent({ keepAlive: true, lookup: socketLookup });
+}
+
+/** One client per provider/endpoint – reuse sockets across calls. */
+const clients = new Map<string, OpenAI>();
+
+export function chatClient(m: ResolvedModel): OpenAI {
+  if (m.provider === 'heuristic') {
+    throw new Error('heuristic provider has no chat client');
+  }
+
+  const cacheKey = `${m.provider}|${m.baseUrl ?? ''}`;
+  const cached = clients.get(cacheKey);
+  if (cached) return cached;
+
+  const httpAgent = m.baseUrl ? endpointAgent(m.baseUrl) : undefined;
+  let client: OpenAI;
+  switch (m.provider) {
+    case 'azure':
+      client = new AzureOpenAI({
+        endpoint: m.baseUrl ?? process.env.AZURE_OPENAI_ENDPOINT,
+        apiKey: process.env.AZURE_OPENAI_API_KEY,
+        apiVersion: process.env.AZURE_OPENAI_API_VERSION ?? '2024-10-21',
+        httpAgent,
+      });
+      break;
+    case 'compatible': {
+      const baseURL = m.baseUrl ?? process.env.LLM_COMPATIBLE_BASE_URL;
+      if (!baseURL) throw new Error('compatible provider needs base_url or LLM_COMPATIBLE_BASE_URL');
+      client = new OpenAI({
+        baseURL,
+        // most local servers ignore the key, but the SDK insists on one
+        apiKey: process.env.LLM_COMPATIBLE_API_KEY || 'none',
+        httpAgent,
+      });
+      break;
+    }
+    default:
+      client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  }
+
+  clients.set(cacheKey, client);
+  return client;
+}
+
+/** Validate the `ai` request option; throws with a readable message. */
+export function parseAiConfig(raw: unknown): AiConfig | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw !== 'object' || Array.isArray(raw)) throw new Error('ai must be an object');
+
+  const out: AiConfig = {};
+  for (const [step, value] of Object.entries(raw as Record<string, any>)) {
+    if (!(AI_STEPS as string[]).includes(step)) throw new Error(`ai: unknown step ${step}`);
+    if (typeof value !== 'object' || value === null) throw new Error(`ai.${step} must be an object`);
+
+    const { provider, model, base_url } = value;
+    if (provider !== undefined && !isProvider(provider)) {
+      throw new Error(`ai.${step}.provider must be one of ${LLM_PROVIDERS.join(', ')}`);
+    }
+    if (model !== undefined && typeof model !== 'string') throw new Error(`ai.${step}.model must be a string`);
+    if (base_url !== undefined) {
+      if (typeof base_url !== 'string' || !/^https?:\/\//.test(base_url)) {
+        throw new Error(`ai.${step}.base_url must be an http(s) URL`);
+      }
+      if (provider !== 'azure' && provider !== 'compatible') {
+        throw new Error(`ai.${step}.base_url needs provider azure or compatible`);
+      }
+      if (!allowedBaseUrls().includes(normalizeBaseUrl(base_url))) {
+        throw new Error(`ai.${step}.base_url is not an allowed endpoint (LLM_ALLOWED_BASE_URLS)`);
+      }
+    }
+    out[step as AiStep] = { provider, model, ...(base_url !== undefined ? { base_url: normalizeBaseUrl(base_url) } : {}) };
+  }
+  return out;
+}
+
+/* -----------------------------------------------------------
+   Structured (JSON-schema) chat calls
+----------------------------------------------------------- */
+
+/** The model kept answering with something we could not use. */
+export class AiOutputError extends Error {
+  constructor(
+    public readonly step: AiStep,
+    message: string,
+    public readonly raw?: string
+  ) {
+    super(`${step}: ${message}`);
+    this.name = 'AiOutputError';
+  }
+}
+
+export type Validation<T> = { ok: true; value: T } | { ok: false; error: string };
+
+export interface StructuredChatOptions<T> {
+  step: AiStep;
+  messages: any[];
+  /** JSON schema of the answer; must be an object at the top level */
+  schemaName: string;
+  schema: Record<string, unknown>;
+  /** Semantic checks on top of the schema (e.g. URLs must come from the input) */
+  validate: (parsed: any) => Validation<T>;
+  temperature?: number;
+  max_tokens?: number;
+  /** Extra attempts with a repair prompt after the first invalid answer */
+  repairAttempts?: number;
+}
+
+/**
+ * Ask for a JSON-schema constrained answer, parse and validate it. On an
+ * invalid answer the model gets its own output back with the validation
+ * error and is asked to fix it; after `repairAttempts` we give up with an
+ * AiOutputError.
+ */
+export async function structuredChat<T>(
+  m: ResolvedModel,
+  opts: StructuredChatOptions<T>
+): Promise<T> {
+  const messages = [...opts.messages];
+  const attempts = 1 + (opts.repairAttempts ?? 2);
+  let lastError = 'no answer';
+  let lastRaw: string | undefined;
+
+  for (let i = 0; i < attempts; i++) {
+    const { choices } = await chatClient(m).chat.completions.create({
+      model: m.model,
+      messages,
+      temperature: opts.temperature,
+      max_tokens: opts.max_tokens,
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: opts.schemaName, schema: opts.schema, strict: true },
+      },
+    });
+
+    const content = choices[0]?.message.content ?? '';
+    lastRaw = content;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      parsed = undefined;
+      lastError = 'answer is not valid JSON';
+    }
+
+    if (parsed !== undefined) {
+      const result = opts.validate(parsed);
+      if (result.ok) return result.value;
+      lastError = result.error;
+    }
+
+    console.warn(`${opts.step}: invalid model output (attempt ${i + 1}/${attempts}): ${lastError}`);
+    messages.push(
+      { role: 'assistant', content },
+      {
+        role: 'user',
+        content:
+          `Your previous answer was invalid: ${lastError}. ` +
+          `Reply again with JSON that matches the "${opts.schemaName}" schema – no extra text.`,
+      }
+    );
+  }
+
+  throw new AiOutputError(opts.step, lastError, lastRaw);
+}
+
+/** Absolute http(s) URL? */
+export const isHttpUrl = (s: unknown): s is string => {
+  if (typeof s !== 'string') return false;
+  try {
+    return /^https?:$/.test(new URL(s).protocol);
+  } catch {
+    return false;
+  }
+};
+
+/** `{ [key]: string[] }` – strict mode wants an object at the top level. */
+export const urlListSchema = (key: string) => ({
+  type: 'object',
+  properties: { [key]: { type: 'array', items: { type: 'string' } } },
+  required: [key],
+  additionalProperties: false,
+});
@@ -1,11 +1,17 @@
-import OpenAI from 'openai';
-
-/* -----------------------------------------------------------
-   Shared client (reuse socket)
------------------------------------------------------------ */
-export const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { AiOutputError, ModelConfig, isHttpUrl, resolveModel, structuredChat, urlListSchema } from './llm';
+import { heuristicAltText, heuristicClassifyImage } from './heuristics';
+import { IMAGE_CATEGORIES, ImageClassification, isImageCategory } from './image-categories';
+import { mapLimit } from './concurrency';
+import {
+  AltText,
+  AltTextOptions,
+  altTextPrompt,
+  CAPTION_MAX_LENGTH,
+  clipText,
+  DEFAULT_ALT_TEXT_OPTIONS,
+  PageContext,
+  TITLE_MAX_LENGTH,
+} from './alt-text';
 
 /* -----------------------------------------------------------
    STEP-2  – Link-filter prompt
@@ -39,58 +45,232 @@ Important instructions:
 - If multiple links start with /compare/, keep only the most general or representative comparison page (e.g. /compare/flockler-alternative)
 - Ignore URLs that only differ by # fragment
 
-Answer in *JSON array only*—no extra text.
+Answer with a JSON object {"links": [...]} only—no extra text. Every link must be copied verbatim from the input list.
 `;
 
-export async function filterHomepageLinks(links: string[]): Promise<string[]> {
-  const { choices } = await openai.chat.completions.create({
-    model: 'gpt-4.1',          // GPT-4.1 model
+/**
+ * `links` should already be rule-ranked (link-ranker.ts) – the heuristic
+ * provider returns them as they are, the model picks and re-orders.
+ */
+export async function filterHomepageLinks(
+  links: string[],
+  modelConfig?: ModelConfig
+): Promise<string[]> {
+  const m = resolveModel('link_filter', modelConfig);
+  console.info(`filterHomepageLinks: ${m.provider}/${m.model}`);
+  if (m.provider === 'heuristic') return links;
+
+  // model may drop or keep #fragments – compare without them
+  const strip = (u: string) => u.split('#')[0];
+  const allowed = new Set(links.map(strip));
+
+  return structuredChat<string[]>(m, {
+    step: 'link_filter',
     temperature: 0.2,
+    schemaName: 'product_links',
+    schema: urlListSchema('links'),
     messages: [
       { role: 'system', content: FILTER_SYSTEM_PROMPT.trim() },
       { role: 'user', content: JSON.stringify(links) },
     ],
+    validate: (parsed) => {
+      const out: unknown[] = parsed?.links;
+      if (!Array.isArray(out)) return { ok: false, error: '"links" must be an array' };
+
+      const bad = out.filter((l) => !isHttpUrl(l) || !allowed.has(strip(l)));
+      if (bad.length) {
+        return {
+          ok: false,
+          error: `these entries are not absolute URLs from the input list: ${JSON.stringify(bad.slice(0, 10))}`,
+        };
+      }
+      return { ok: true, value: [...new Set(out as string[])] };
+    },
   });
+}
 
-  const content = choices[0].message.content;
-  try {
-    return JSON.parse(content ?? '[]');
-  } catch {
-    console.error('filterHomepageLinks: cannot parse model output', content);
-    return [];                           // fail-safe: nothing gets scraped
-  }
+/* ===========================================================
+   STEP-4  – Image classification (GPT-4o-mini by default)
+   -----------------------------------------------------------
+   One vision call per image, a few at a time
+=========================================================== */
+
+const CLASSIFY_PROMPT = `
+You are a SaaS marketing expert sorting images found on a company website.
+Pick the single category that best describes the image:
+- screenshot: the product's user interface (dashboard, app screen, editor, report)
+- widget: an embeddable widget or feed as shown on a customer's site (reviews, social feed, gallery, chat)
+- mockup: product UI shown inside a device or browser frame, or composed marketing visual of the UI
+- stock_photo: a photograph that does not show the product
+- illustration: drawing, icon set, abstract or decorative graphic
+- logo: a logo, badge, award, rating or certification mark
+- people: headshots, team or customer photos
+Return {"category": "…", "confidence": 0–1}.
+`;
+
+const CLASSIFY_CONCURRENCY = 3;
+
+interface ClassifyRequest {
+  url: string;
+  alt?: string;
+  context?: string;
+  source?: string;
+  dimensions?: { width: number; height: number };
+}
+
+export async function classifyImages(
+  items: ClassifyRequest[],
+  modelConfig?: ModelConfig
+): Promise<ImageClassification[]> {
+  const m = resolveModel('classify', modelConfig);
+  console.info(`classifyImages: ${m.provider}/${m.model}`);
+  if (m.provider === 'heuristic') return items.map(heuristicClassifyImage);
+
+  return mapLimit(items, CLASSIFY_CONCURRENCY, async (item) => {
+    const messages = [
+      { role: 'system', content: CLASSIFY_PROMPT.trim() },
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: `Alt text / context: ${item.alt || item.context || '(none)'}` },
+          { type: 'image_url', image_url: { url: item.url, detail: 'low' } },
+        ],
+      },
+    ] as any;
+
+    try {
+      const result = await structuredChat<Omit<ImageClassification, 'url'>>(m, {
+        step: 'classify',
+        messages,
+        temperature: 0,
+        max_tokens: 100,
+        schemaName: 'image_category',
+        schema: {
+          type: 'object',
+          properties: {
+            category: { type: 'string', enum: IMAGE_CATEGORIES },
+            confidence: { type: 'number' },
+          },
+          required: ['category', 'confidence'],
+          additionalProperties: false,
+        },
+        validate: (parsed) => {
+          if (!isImageCategory(parsed?.category)) {
+            return { ok: false, error: `"category" must be one of ${IMAGE_CATEGORIES.join(', ')}` };
+          }
+          const confidence = parsed.confidence;
+          if (typeof confidence !== 'number' || confidence < 0 || confidence > 1) {
+            return { ok: false, error: '"confidence" must be a number between 0 and 1' };
+          }
+          return { ok: true, value: { category: parsed.category, confidence } };
+        },
+      });
+      return { url: item.url, ...result };
+    } catch (err: any) {
+      // bad output, API errors, refusals alike: fall back to the heuristic guess and report it
+      console.error('classifyImages: giving up on', item.url, err.message);
+      return { ...heuristicClassifyImage(item), error: err.message };
+    }
+  });
 }
 
 /* ===========================================================
-   STEP-5  – Image analysis with GPT-o4-mini
+   STEP-5  – Image analysis (GPT-4o-mini by default)
    -----------------------------------------------------------
-   Call in batches of 5 to stay inside token & size limits
+   One call per image; languages, length, tone and the extra
+   caption/title fields come from the `alt_text` request option
 =========================================================== */
 
 interface MiniRequest {
   url: string;
   alt?: string;
   context?: string;
+  /** Brand / page metadata of the image's landing page */
+  page?: PageContext;
 }
 
-interface MiniResult {
+interface MiniResult extends AltText {
   url: string;
-  alt: string;
+  /** Every requested language, when more than one was asked for */
+  localized?: Record<string, AltText>;
+  /** Set when the model never produced usable output for this image */
+  error?: string;
+}
+
+/** Answers up to this much over a limit are clipped instead of re-asked */
+const LENGTH_SLACK = 1.2;
+
+function heuristicTexts(item: MiniRequest, opts: AltTextOptions): Record<string, AltText> {
+  const alt = clipText(heuristicAltText(item), opts.max_length);
+  const text: AltText = {
+    alt,
+    ...(opts.caption ? { caption: clipText(item.context || alt, CAPTION_MAX_LENGTH) } : {}),
+    ...(opts.title ? { title: clipText(alt, TITLE_MAX_LENGTH) } : {}),
+  };
+  // no translation without a model – same text for every language
+  return Object.fromEntries(opts.languages.map((l) => [l, text]));
+}
+
+function toResult(url: string, texts: Record<string, AltText>, opts: AltTextOptions): MiniResult {
+  return {
+    url,
+    ...texts[opts.languages[0]],
+    ...(opts.languages.length > 1 ? { localized: texts } : {}),
+  };
 }
 
 export async function analyseImages(
-  items: MiniRequest[]
+  items: MiniRequest[],
+  modelConfig?: ModelConfig,
+  options: Partial<AltTextOptions> = {}
 ): Promise<MiniResult[]> {
+  const opts = { ...DEFAULT_ALT_TEXT_OPTIONS, ...options };
+  const m = resolveModel('alt_text', modelConfig);
+  console.info(`analyseImages: ${m.provider}/${m.model}`, JSON.stringify(opts));
   const out: MiniResult[] = [];
 
+  const limits: Record<keyof AltText, number> = {
+    alt: opts.max_length,
+    caption: CAPTION_MAX_LENGTH,
+    title: TITLE_MAX_LENGTH,
+  };
+  const fields = (['alt', 'caption', 'title'] as const).filter((f) => f === 'alt' || opts[f]);
+  const schema = {
+    type: 'object',
+    properties: {
+      texts: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            language: { type: 'string', enum: opts.languages },
+            ...Object.fromEntries(fields.map((f) => [f, { type: 'string' }])),
+          },
+          required: ['language', ...fields],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ['texts'],
+    additionalProperties: false,
+  };
+  // ~2 chars per token leaves room for non-Latin scripts
+  const perLanguage = fields.reduce((sum, f) => sum + limits[f], 0) + 40;
+  const maxTokens = Math.ceil((opts.languages.length * perLanguage) / 2) + 100;
+
   for (const item of items) {
+    if (m.provider === 'heuristic') {
+      out.push(toResult(item.url, heuristicTexts(item, opts), opts));
+      continue;
+    }
+
     const messages = [
       {
         role: "user",
         content: [
           {
             type: "text",
-            text: `You are a SaaS marketing expert. Write a detailed, marketing-ready alt text for this image. Context: ${item.alt || item.context || ""}`,
+            text: altTextPrompt(opts, item.page, item.alt || item.context),
           },
           {
             type: "image_url",
@@ -100,17 +280,47 @@ export async function analyseImages(
       },
     ] as any;
 
-    const resp = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages,
-      max_tokens: 10000,
-    });
-
-    const content = resp.choices[0].message.content || "";
-    out.push({
-      url: item.url,
-      alt: content,
-    });
+    try {
+      const texts = await structuredChat<Record<string, AltText>>(m, {
+        step: 'alt_text',
+        messages,
+        max_tokens: maxTokens,
+        schemaName: 'alt_text',
+        schema,
+        validate: (parsed) => {
+          const entries: any[] = parsed?.texts;
+          if (!Array.isArray(entries)) return { ok: false, error: '"texts" must be an array' };
+
+          const byLanguage: Record<string, AltText> = {};
+          for (const entry of entries) {
+            const text: Partial<AltText> = {};
+            for (const f of fields) {
+              const value = typeof entry?.[f] === 'string' ? entry[f].trim() : '';
+              if (!value) return { ok: false, error: `"${f}" must be a non-empty string` };
+              if (value.length > limits[f] * LENGTH_SLACK) {
+                return {
+                  ok: false,
+                  error: `"${f}" for ${entry.language} has ${value.length} characters, the maximum is ${limits[f]}`,
+                };
+              }
+              text[f] = clipText(value, limits[f]);
+            }
+            byLanguage[entry.language] = text as AltText;
+          }
+
+          const missing = opts.languages.filter((l) => !byLanguage[l]);
+          return missing.length
+            ? { ok: false, error: `missing languages: ${missing.join(', ')}` }
+            : { ok: true, value: byLanguage };
+        },
+      });
+      out.push(toResult(item.url, texts, opts));
+    } catch (err: any) {
+      // one bad image should not sink the whole crawl – report it instead
+      if (!(err instanceof AiOutputError)) throw err;
+      console.error('analyseImages: giving up on', item.url, err.message);
+      out.push({ ...toResult(item.url, heuristicTexts(item, opts), opts), error: err.message });
+    }
   }
 
   return out;
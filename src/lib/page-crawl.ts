@@ -0,0 +1,182 @@
+import { mapLimit } from './concurrency';
+import { globMatch, LinkRules, normalizeLink, rankLinks } from './link-ranker';
+import { RobotsGuard } from './robots';
+import { checkUrl, UrlPolicy } from './url-policy';
+import { CrawlPage, CrawlWarning, PageScreenshot, Scraper } from './types';
+
+/* -----------------------------------------------------------
+   Step 3 – bounded multi-page crawl
+   -----------------------------------------------------------
+   Breadth-first from the step-2 links. Depth 1 is those links;
+   each further level follows same-site links found on the
+   previous one (rule-ranked, inside the path scope). Pages are
+   canonicalised (normalizeLink) so cache-busters and tracking
+   params never cause a re-visit. `max_pages` is the total
+   budget, shared out evenly over the remaining levels. Failed
+   pages are replaced by the next ranked link, and budget a level
+   cannot use goes to the links earlier levels had to skip.
+----------------------------------------------------------- */
+
+/** Per-request crawl scope (`include_paths` / `exclude_paths`) */
+export interface PathScope {
+  /** Only follow paths matching one of these globs (all paths if unset) */
+  include_paths?: string[];
+  /** Never follow paths matching one of these */
+  exclude_paths?: string[];
+}
+
+const MAX_PATH_GLOBS = 50;
+
+export interface PageCrawlOptions {
+  siteUrl: string;
+  scraper: Scraper;
+  robots: RobotsGuard;
+  maxDepth: number;
+  maxPages: number;
+  concurrency: number;
+  scope?: PathScope;
+  linkRules?: LinkRules;
+  /** Ask the scraper for page screenshots (browser scraper) */
+  screenshots?: boolean;
+  /** Request `url_policy`; blocked pages become warnings */
+  policy?: UrlPolicy;
+  warnings: CrawlWarning[];
+}
+
+/** A scraped page plus its HTML and metadata */
+export interface ScrapedPage extends CrawlPage {
+  link: string;
+  rawHtml: string;
+  metadata?: Record<string, unknown>;
+  imageRequests?: string[];
+  screenshots?: PageScreenshot[];
+}
+
+const hostKey = (host: string) => host.toLowerCase().replace(/^www\./, '');
+
+/** Same site and inside include/exclude? Globs match the path. */
+export function inScope(url: string, siteUrl: string, scope: PathScope = {}): boolean {
+  const u = new URL(url);
+  if (hostKey(u.hostname) !== hostKey(new URL(siteUrl).hostname)) return false;
+  const matches = (globs: string[]) => globs.some((g) => globMatch(g, u.pathname));
+  if (scope.include_paths?.length && !matches(scope.include_paths)) return false;
+  if (scope.exclude_paths?.length && matches(scope.exclude_paths)) return false;
+  return true;
+}
+
+/** A page waiting to be scraped and the path that led to it */
+interface FrontierEntry {
+  url: string;
+  path: string[];
+  depth: number;
+}
+
+/**
+ * Scrape `seeds` (already ranked) and, up to `maxDepth`, the pages they
+ * link to. Failed pages become warnings. Returns the scraped pages in
+ * crawl order, each with its discovery path from the homepage.
+ */
+export async function crawlPages(seeds: string[], opts: PageCrawlOptions): Promise<ScrapedPage[]> {
+  const home = normalizeLink(opts.siteUrl)!;
+  const visited = new Set<string>([home]);
+  const pages: ScrapedPage[] = [];
+
+  const scrapeOne = async ({ url, path, depth }: FrontierEntry) => {
+    try {
+      checkUrl(url, opts.policy);
+      await opts.robots.check(url);
+      // links are only needed if there is a next level
+      const wantLinks = depth < opts.maxDepth;
+      const page = await opts.scraper.scrape(url, {
+        onlyMainContent: true,
+        formats: wantLinks ? ['rawHtml', 'metadata', 'links'] : ['rawHtml', 'metadata'],
+        maxAge: 0,
+        storeInCache: false,
+        screenshots: opts.screenshots,
+        policy: opts.policy,
+      });
+      return {
+        link: url,
+        rawHtml: page.rawHtml ?? '',
+        metadata: page.metadata,
+        imageRequests: page.imageRequests,
+        screenshots: page.screenshots,
+        url,
+        depth,
+        discovery_path: path,
+        links: page.links ?? [],
+      };
+    } catch (err: any) {
+      // a single broken child page should not fail the crawl
+      console.error('Step 3: failed to scrape', url, err.message);
+      opts.warnings.push({ step: 'page_scrape', url, message: err.message ?? 'scrape failed' });
+      return undefined;
+    }
+  };
+
+  // this level's ranked links; `waiting` holds those earlier levels had no budget for
+  let frontier: FrontierEntry[] = seeds.map((url) => ({ url, path: [home], depth: 1 }));
+  let waiting: FrontierEntry[] = [];
+
+  for (let level = 1; pages.length < opts.maxPages && (frontier.length || waiting.length); level++) {
+    const remaining = opts.maxPages - pages.length;
+    // past the last level only the waiting pages are left, and they may use it all
+    const levelBudget = Math.ceil(remaining / Math.max(1, opts.maxDepth - level + 1));
+    const queue = [...frontier, ...waiting];
+    const found = new Map<string, FrontierEntry>();
+    let scrapedCount = 0;
+
+    // failed pages are replaced by the next entry in the queue
+    while (scrapedCount < levelBudget && queue.length) {
+      const batch: FrontierEntry[] = [];
+      while (batch.length < levelBudget - scrapedCount && queue.length) {
+        const entry = queue.shift()!;
+        const url = normalizeLink(entry.url);
+        if (!url || visited.has(url) || !inScope(url, opts.siteUrl, opts.scope)) continue;
+        visited.add(url);
+        batch.push({ url, path: [...entry.path, url], depth: entry.depth });
+      }
+      if (!batch.length) break;
+      console.log(`Step 3: level ${level}: scraping ${batch.length} pages, ${opts.concurrency} at a time`);
+
+      for (const page of await mapLimit(batch, opts.concurrency, scrapeOne)) {
+        if (!page) continue;
+        const { links, ...rest } = page;
+        pages.push(rest);
+        scrapedCount++;
+        if (page.depth >= opts.maxDepth) continue;
+        for (const link of links) {
+          const url = normalizeLink(link, page.url);
+          if (url && !visited.has(url) && !found.has(url)) {
+            found.set(url, { url, path: page.discovery_path, depth: page.depth + 1 });
+          }
+        }
+      }
+    }
+
+    // same rules as step 2 (no legal/login/blog, best paths first)
+    frontier = rankLinks([...found.keys()], opts.siteUrl, opts.linkRules).map(({ url }) => found.get(url)!);
+    // shallowest first; the sort is stable so ranking order holds within a depth
+    waiting = queue.sort((a, b) => a.depth - b.depth);
+  }
+
+  return pages;
+}
+
+/** Validate `include_paths` / `exclude_paths`. */
+export function parsePathScope(body: any): PathScope | undefined {
+  const out: PathScope = {};
+  for (const key of ['include_paths', 'exclude_paths'] as const) {
+    const value = body?.[key];
+    if (value === undefined || value === null) continue;
+    if (
+      !Array.isArray(value) ||
+      value.length > MAX_PATH_GLOBS ||
+      !value.every((g) => typeof g === 'string' && g.startsWith('/') && g.length <= 200)
+    ) {
+      throw new Error(`${key} must be an array of up to ${MAX_PATH_GLOBS} path globs starting with /`);
+    }
+    out[key] = value;
+  }
+  return Object.keys(out).length ? out : undefined;
+}
@@ -0,0 +1,124 @@
+import crypto from 'crypto';
+import sharp from 'sharp';
+
+/* -----------------------------------------------------------
+   Perceptual hashes computed from image bytes (via sharp)
+   -----------------------------------------------------------
+   All three produce 64-bit hashes as 16 hex chars, so the
+   Hamming threshold means the same thing for each.
+   ahash – 8×8 grey, bit = pixel > mean          (fastest)
+   dhash – 9×8 grey, bit = pixel > right neighbour
+   phash – 32×32 grey → DCT, low 8×8, bit > median (most robust)
+----------------------------------------------------------- */
+
+export type HashAlgorithm = 'ahash' | 'dhash' | 'phash';
+
+export const HASH_ALGORITHMS: HashAlgorithm[] = ['ahash', 'dhash', 'phash'];
+
+export const DEFAULT_HASH_ALGORITHM: HashAlgorithm = 'phash';
+export const DEFAULT_HASH_THRESHOLD = 8;
+
+export const isHashAlgorithm = (a: unknown): a is HashAlgorithm =>
+  typeof a === 'string' && (HASH_ALGORITHMS as string[]).includes(a);
+
+/** Hash plus the algorithm that produced it; `sha256` = bytes were undecodable */
+export interface ImageHash {
+  hash: string;
+  algorithm: HashAlgorithm | 'sha256';
+}
+
+/** Greyscale pixels, resized ignoring aspect ratio */
+async function grey(buffer: Buffer, width: number, height: number): Promise<Buffer> {
+  return sharp(buffer)
+    .flatten({ background: '#ffffff' }) // transparent areas hash as white
+    .greyscale()
+    .resize(width, height, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+}
+
+const bitsToHex = (bits: boolean[]) => {
+  let hex = '';
+  for (let i = 0; i < bits.length; i += 4) {
+    const nibble = (+bits[i] << 3) | (+bits[i + 1] << 2) | (+bits[i + 2] << 1) | +bits[i + 3];
+    hex += nibble.toString(16);
+  }
+  return hex;
+};
+
+async function aHash(buffer: Buffer): Promise<string> {
+  const px = await grey(buffer, 8, 8);
+  const mean = px.reduce((sum, v) => sum + v, 0) / px.length;
+  return bitsToHex([...px].map((v) => v > mean));
+}
+
+async function dHash(buffer: Buffer): Promise<string> {
+  const px = await grey(buffer, 9, 8);
+  const bits: boolean[] = [];
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) bits.push(px[y * 9 + x] > px[y * 9 + x + 1]);
+  }
+  return bitsToHex(bits);
+}
+
+/** cos((2x+1)uπ / 2N) for N = 32, computed once */
+const DCT_N = 32;
+const COS = Array.from({ length: DCT_N }, (_, u) =>
+  Array.from({ length: DCT_N }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * DCT_N)))
+);
+
+async function pHash(buffer: Buffer): Promise<string> {
+  const px = await grey(buffer, DCT_N, DCT_N);
+
+  // only the low 8×8 frequencies are needed
+  const coeffs: number[] = [];
+  for (let u = 0; u < 8; u++) {
+    for (let v = 0; v < 8; v++) {
+      let sum = 0;
+      for (let y = 0; y < DCT_N; y++) {
+        for (let x = 0; x < DCT_N; x++) sum += px[y * DCT_N + x] * COS[u][y] * COS[v][x];
+      }
+      coeffs.push(sum);
+    }
+  }
+
+  // median without the DC term, which only encodes average brightness
+  const sorted = coeffs.slice(1).sort((a, b) => a - b);
+  const median = (sorted[31] + sorted[32]) / 2;
+  return bitsToHex(coeffs.map((c) => c > median));
+}
+
+const HASHERS: Record<HashAlgorithm, (buffer: Buffer) => Promise<string>> = {
+  ahash: aHash,
+  dhash: dHash,
+  phash: pHash,
+};
+
+/**
+ * Perceptual hash of the decoded image. Bytes sharp cannot decode fall back
+ * to SHA-256 (tagged as such) so they can still be matched exactly.
+ */
+export async function hashImage(
+  buffer: Buffer,
+  algorithm: HashAlgorithm = DEFAULT_HASH_ALGORITHM
+): Promise<ImageHash> {
+  try {
+    return { hash: await HASHERS[algorithm](buffer), algorithm };
+  } catch {
+    return { hash: crypto.createHash('sha256').update(buffer).digest('hex'), algorithm: 'sha256' };
+  }
+}
+
+/** Hamming distance between two hex strings of equal length */
+export const hammingDistance = (a: string, b: string) =>
+  (BigInt('0x' + a) ^ BigInt('0x' + b)).toString(2).replace(/0/g, '').length;
+
+/**
+ * Near-duplicate test. Hashes from different algorithms never match;
+ * SHA-256 fallbacks only match exactly.
+ */
+export function isNearDuplicate(a: ImageHash, b: ImageHash, threshold: number): boolean {
+  if (a.algorithm !== b.algorithm) return false;
+  if (a.algorithm === 'sha256') return a.hash === b.hash;
+  return hammingDistance(a.hash, b.hash) <= threshold;
+}
@@ -0,0 +1,407 @@
+import { sha256, getObject, putObject } from './s3';
+import { getScraper } from './scraper';
+import { filterHomepageLinks, analyseImages, classifyImages } from './openai';
+import { gptExtractImages } from './gpt-image-extract';
+import { parseImages } from './html-images';
+import { fetchStylesheetImages } from './css-images';
+import {
+  dedupeImages,
+  uploadAllImagesToS3,
+  filterImagesByDimension,
+  hasValidFormat,
+  HashedImage,
+  preselectImages,
+} from './image-hash';
+import { rankImages } from './scoring';
+import { categoryRelevance, ImageClassification } from './image-categories';
+import { pageContext } from './alt-text';
+import { heuristicClassifyImage } from './heuristics';
+import { createImageFetcher } from './image-fetch';
+import { createRobotsGuard } from './robots';
+import { cachePrefix, imagePrefix } from './tenants';
+import { assertUrlAllowed, passesUrlPolicy } from './url-policy';
+import { discoverSitemapLinks } from './sitemap';
+import { MAX_RANKED_LINKS, rankLinks } from './link-ranker';
+import { crawlPages } from './page-crawl';
+import { screenshotImages } from './browser-scraper';
+import { createStageTimer } from './timing';
+import { mapLimit } from './concurrency';
+import { resolveLimits, SCRAPE_CONCURRENCY } from './limits';
+import { CrawlRequest, CrawlResult, CrawlWarning, PageScreenshot, ProgressEvent, ProgressStage } from './types';
+
+export const STEP_NAMES: Record<number, string> = {
+  1: 'homepage',
+  2: 'link_filter',
+  3: 'page_scrape',
+  4: 'image_harvest',
+  5: 'image_analysis',
+};
+
+export interface PipelineHooks {
+  /** Called when the pipeline enters step N (1…5). */
+  onStep?: (step: number, name: string) => Promise<void> | void;
+  /** Called when a stage finishes, with what it produced. */
+  onProgress?: (event: ProgressEvent) => Promise<void> | void;
+}
+
+/**
+ * The five-step crawl: homepage → link filter → child pages → images → AI.
+ * Page/image budgets come from the request (see limits.ts).
+ * Returns the final image list; throws on any unrecoverable failure.
+ */
+export async function runCrawl(
+  request: CrawlRequest,
+  hooks: PipelineHooks = {}
+): Promise<CrawlResult> {
+  const { url, force_refresh } = request;
+  const warnings: CrawlWarning[] = [];
+  const limits = resolveLimits(request);
+  const timer = createStageTimer();
+  // robots.txt rules + Crawl-delay for every request this crawl makes
+  const robots = createRobotsGuard();
+  // domain lists; private addresses are refused whatever the policy
+  const policy = request.url_policy;
+  // one download per image URL for the whole crawl
+  const fetcher = createImageFetcher({ robots, policy }, timer);
+  const scraper = getScraper(request.scraper);
+  const step = async (n: number) => hooks.onStep?.(n, STEP_NAMES[n]);
+  const startedAt = Date.now();
+  const progress = async (stage: ProgressStage, n: number, counts: Record<string, number>) => {
+    console.log(`Progress: ${stage}`, JSON.stringify(counts));
+    await hooks.onProgress?.({
+      stage,
+      step: n,
+      at: new Date().toISOString(),
+      elapsed_ms: Date.now() - startedAt,
+      counts,
+    });
+  };
+
+  // Debug: Check if API keys are set (masked for security)
+  const firecrawlKey = process.env.FIRECRAWL_API_KEY;
+  const openaiKey = process.env.OPENAI_API_KEY;
+  console.log('Debug: Firecrawl API key present:', !!firecrawlKey);
+  console.log('Debug: OpenAI API key present:', !!openaiKey);
+  console.log('Debug: Firecrawl key starts with:', firecrawlKey?.substring(0, 10) + '...');
+  console.log('Debug: Deployment version:', process.env.DEPLOYMENT_VERSION);
+  console.log('Debug: Scraper backend:', scraper.name);
+  console.log('Debug: Limits:', JSON.stringify(limits));
+
+  /* ---------- STEP 1 – scrape homepage (cached) ---------- */
+  await step(1);
+  console.log(`Step 1: Starting ${scraper.name} scrape for`, url);
+  // before the cache, so a cached result never bypasses the policy
+  await assertUrlAllowed(url, policy);
+  // only the browser can render screenshots
+  const screenshots = !!request.screenshots && scraper.name === 'browser';
+  if (request.screenshots && !screenshots) {
+    warnings.push({ step: 'homepage', message: `screenshots need the browser scraper, not ${scraper.name}` });
+  }
+  // each tenant has its own cache; Firecrawl results keep the plain file name
+  const cacheDir = `${cachePrefix(request.tenant_id)}${sha256(url)}`;
+  const key = scraper.name === 'firecrawl'
+    ? `${cacheDir}/homepage.json`
+    : `${cacheDir}/homepage-${scraper.name}${screenshots ? '-screenshots' : ''}.json`;
+  let homepage = await getObject<any>(key);
+
+  console.log('Step 1: Cache check - homepage exists:', !!homepage, 'force_refresh:', force_refresh);
+  if (!homepage || force_refresh) {
+    console.log('Step 1: No cached data or force refresh, scraping fresh');
+    await robots.check(url);
+    homepage = await scraper.scrape(url, {
+      onlyMainContent: false,
+      formats: ['links', 'rawHtml', 'metadata'],
+      maxAge: 0,            // ⇦ disable read-cache
+      storeInCache: false,  // ⇦ don't write either
+      screenshots,
+      policy,
+    });
+    // Store with 24h TTL (86400 seconds)
+    await putObject(key, homepage, 86400);
+  } else {
+    console.log('Step 1: Using cached data');
+  }
+  await progress('homepage_scraped', 1, { links: homepage.links?.length ?? 0 });
+
+  /* ---------- STEP 2 – AI link filter ---------- */
+  await step(2);
+  const homepageLinks: string[] = homepage.links ?? [];
+
+  // Count how many links the scraper gave us
+  console.info('Step 1: homepage link count:', homepageLinks.length);
+
+  // Sitemap pages the homepage does not link to (cached like the homepage)
+  const sitemapKey = `${cacheDir}/sitemap-links.json`;
+  let sitemapLinks = force_refresh ? undefined : await getObject<string[]>(sitemapKey);
+  if (!sitemapLinks) {
+    sitemapLinks = await discoverSitemapLinks(url, robots, policy);
+    await putObject(sitemapKey, sitemapLinks, 86400);
+  }
+  const merged = [...new Set([...homepageLinks, ...sitemapLinks])].filter((link) => passesUrlPolicy(link, policy));
+  // only same-site links here (robots.txt is cached); others are checked in step 3
+  const { origin } = new URL(url);
+  const candidates: string[] = [];
+  for (const link of merged) {
+    if (!link.startsWith(`${origin}/`) || (await robots.allowed(link))) candidates.push(link);
+  }
+  console.info(
+    `Step 2: ${candidates.length} candidate links (${sitemapLinks.length} from sitemaps, ` +
+      `${merged.length - candidates.length} disallowed by robots.txt)`
+  );
+
+  // Local rules first (drops legal/login/blog/…, other languages, off-site);
+  // the model only sees what is left
+  const ruleRanked = rankLinks(candidates, url, request.link_rules)
+    .slice(0, MAX_RANKED_LINKS)
+    .map((l) => l.url);
+  console.info('Step 2: rule-ranked links:', ruleRanked.length);
+
+  // Ask the model to keep only product-image pages; fall back to the
+  // rule ranking if it fails
+  let ranked: string[];
+  try {
+    ranked = ruleRanked.length ? await filterHomepageLinks(ruleRanked, request.ai?.link_filter) : [];
+  } catch (err: any) {
+    console.error('Step 2: link filter failed, using rule ranking:', err.message);
+    warnings.push({ step: 'link_filter', message: `model failed, used rule ranking: ${err.message}` });
+    ranked = ruleRanked;
+  }
+
+  console.info('Step 2: ranked links:', ranked.slice(0, limits.max_pages));
+  await progress('links_kept', 2, {
+    candidates: candidates.length,
+    from_sitemaps: sitemapLinks.length,
+    rule_ranked: ruleRanked.length,
+    kept: ranked.length,
+  });
+
+  /* ---------- STEP 3 – scrape pages (up to max_depth levels) ---------- */
+  await step(3);
+  const pages = await crawlPages(ranked, {
+    siteUrl: url,
+    scraper,
+    robots,
+    maxDepth: limits.max_depth,
+    maxPages: limits.max_pages,
+    concurrency: SCRAPE_CONCURRENCY,
+    scope: { include_paths: request.include_paths, exclude_paths: request.exclude_paths },
+    linkRules: request.link_rules,
+    screenshots,
+    policy,
+    warnings,
+  });
+  console.log('Step 3: Scraped', pages.length, 'pages');
+  await progress('pages_scraped', 3, {
+    pages: pages.length,
+    failed: warnings.filter((w) => w.step === 'page_scrape').length,
+  });
+
+  /* ---------- STEP 4 – harvest & dedupe images ---------- */
+  await step(4);
+  // linked stylesheets are fetched per page; everything else is in the HTML
+  const sources = [
+    {
+      link: url,
+      rawHtml: homepage.rawHtml ?? '',
+      imageRequests: homepage.imageRequests as string[] | undefined,
+      screenshots: homepage.screenshots as PageScreenshot[] | undefined,
+    },
+    ...pages,
+  ];
+  const perPage = await mapLimit(sources, SCRAPE_CONCURRENCY, async (p) =>
+    parseImages(p.rawHtml, p.link, await fetchStylesheetImages(p.rawHtml, p.link, robots, policy), p.imageRequests)
+  );
+  let imgs = perPage.flat();
+  console.info('Step 4a: HTML/CSS parser found', imgs.length, 'images');
+
+  if (imgs.length === 0) {
+    // 🧠 FALLBACK: ask the image_extract model to pull URLs from raw HTML
+    console.info('Step 4b: invoking GPT fallback');
+    const htmlAll =
+      (homepage.rawHtml ?? '') + pages.map((p) => p.rawHtml).join('\n');
+    const gptUrls = await gptExtractImages(htmlAll, url, 50, request.ai?.image_extract);
+    imgs = gptUrls.map((u: string) => ({ url: u, landingPage: url, source: 'gpt' as const }));
+    console.info('Step 4b: GPT returned', gptUrls.length, 'URLs');
+  }
+
+  // rendered captures last, so a real image file wins the near-duplicate check
+  const shots = sources.flatMap((p) => screenshotImages(p.screenshots, p.link));
+  if (shots.length) {
+    console.info('Step 4b: adding', shots.length, 'screenshots');
+    imgs = [...imgs, ...shots];
+  }
+  await progress('candidates_found', 4, { images: imgs.length, screenshots: shots.length });
+
+  // icons, pixels and sprites never get downloaded; the rest is capped
+  const preselected = preselectImages(imgs, {
+    keepLogos: request.categories?.includes('logo'),
+    weights: request.score_weights,
+  });
+  console.info('Step 4c: candidates after pre-download cut:', preselected.length);
+
+  const uniqueImgs = await dedupeImages(preselected, fetcher, {
+    algorithm: request.hash_algorithm,
+    threshold: request.hash_threshold,
+  });
+  console.info('Step 4c: unique images after dedupe:', uniqueImgs.length);
+  console.info('Step 4c: unique image URLs:', uniqueImgs.map(img => img.url));
+  await progress('deduped', 4, { unique: uniqueImgs.length, dropped: imgs.length - uniqueImgs.length });
+
+  // Filter by dimension (at least one dimension >= 300px) on the cached bytes
+  const filteredImgs = await filterImagesByDimension(uniqueImgs, fetcher);
+  console.info('Step 4d: images after dimension filter:', filteredImgs.length);
+
+  // Rank on page signals first, so the AI budget goes to the best candidates
+  const preRanked = rankImages(filteredImgs, request.score_weights);
+
+  // Classify the top `max_ai_images` (raster formats the vision model reads);
+  // the rest get the heuristic guess
+  const aiCandidates = preRanked.filter(hasValidFormat).slice(0, limits.max_ai_images);
+  const classified = await classifyImages(aiCandidates, request.ai?.classify);
+  // distinct images a vision model saw (tenant quota); step 5 draws from
+  // the same `max_ai_images` budget
+  const aiImages = new Set(aiCandidates.map((img) => img.url));
+  classified
+    .filter((c) => c.error)
+    .forEach((c) => warnings.push({ step: 'image_classification', url: c.url, message: c.error! }));
+  const classByUrl = new Map<string, ImageClassification>(classified.map((c) => [c.url, c]));
+  console.info('Step 4e: AI classified', classified.length, 'of', preRanked.length, 'images');
+
+  // Re-rank with the category as the `ai` factor; best first, then
+  // drop unwanted categories and low scores
+  const rankedImgs = rankImages(
+    preRanked.map((img) => {
+      const classification = classByUrl.get(img.url) ?? heuristicClassifyImage(img);
+      return { ...img, classification, aiRelevance: categoryRelevance(classification) };
+    }),
+    request.score_weights
+  ).filter(
+    (img) =>
+      (!request.categories || request.categories.includes(img.classification.category)) &&
+      (request.min_score === undefined || img.score >= request.min_score)
+  );
+  console.info(
+    'Step 4e: ranked images:',
+    rankedImgs.map((img) => `${img.score} ${img.classification.category} ${img.url}`)
+  );
+  await progress('filtered', 4, {
+    images: rankedImgs.length,
+    too_small: uniqueImgs.length - filteredImgs.length,
+    excluded: filteredImgs.length - rankedImgs.length,
+  });
+
+  // Upload to S3, normalised per `transform` (AVIF to WebP by default);
+  // the bytes of everything else are not needed any more
+  const bucket = process.env.S3_BUCKET!;
+  const toUpload = rankedImgs.slice(0, limits.max_images);
+  const keep = new Set(toUpload.map((img) => img.url));
+  preRanked.filter((img) => !keep.has(img.url)).forEach((img) => fetcher.evict(img.url));
+  const limitedImgs = await uploadAllImagesToS3(
+    toUpload,
+    bucket,
+    fetcher,
+    imagePrefix(request.tenant_id),
+    request.transform
+  );
+  console.info('Step 4f: S3 image URLs:', limitedImgs.map((img) => img.url));
+  console.log('Step 4: Found', limitedImgs.length, 'unique images');
+  await progress('uploaded', 4, {
+    images: limitedImgs.filter((img) => img.contentType).length,
+    failed: limitedImgs.filter((img) => !img.contentType).length,
+    derivatives: limitedImgs.reduce((n, img) => n + (img.derivatives?.length ?? 0), 0),
+  });
+  console.info('Step 4: downloaded', fetcher.size, 'distinct URLs; timings:', JSON.stringify(timer.report()));
+
+  /* ---------- STEP 5 – AI analysis (jpeg/png/webp/gif) ---------- */
+  await step(5);
+
+  // 1 · filter to the formats the model reads, by the uploaded bytes
+  const eligible = limitedImgs.filter(hasValidFormat);
+
+  let analysed: Awaited<ReturnType<typeof analyseImages>> = [];
+
+  if (eligible.length) {
+    // 2 · send at most `max_ai_images` images for enrichment; images step 4e
+    //     classified are already paid for, new ones take what is left
+    const sendToAI: typeof eligible = [];
+    for (const img of eligible) {
+      if (sendToAI.length >= limits.max_ai_images) break;
+      const seen = img.sourceUrl ?? img.url;
+      if (!aiImages.has(seen)) {
+        if (aiImages.size >= limits.max_ai_images) continue;
+        aiImages.add(seen);
+      }
+      sendToAI.push(img);
+    }
+    console.info('Step 5: eligible images after format check:', eligible.length);
+    console.info('Step 5: sending image URLs:', sendToAI.map((img: HashedImage) => img.url));
+    console.info(
+      `Step 5: sending ${sendToAI.length} of ${eligible.length} eligible images to AI`
+    );
+    // brand from the homepage, title/description from each landing page
+    const site = pageContext(homepage.metadata);
+    const contexts = new Map(
+      [{ link: url, metadata: homepage.metadata }, ...pages].map((p) => [
+        p.link,
+        pageContext(p.metadata, site.brand),
+      ])
+    );
+    analysed = await analyseImages(
+      sendToAI.map((img) => ({ ...img, page: contexts.get(img.landingPage) ?? site })),
+      request.ai?.alt_text,
+      request.alt_text
+    );
+    analysed
+      .filter((a) => a.error)
+      .forEach((a) => warnings.push({ step: 'image_analysis', url: a.url, message: a.error! }));
+  } else {
+    console.warn('Step 5: no jpeg/png/webp/gif images – skipping AI step');
+  }
+  await progress('analysed', 5, {
+    images: analysed.filter((a) => !a.error).length,
+    failed: analysed.filter((a) => a.error).length,
+  });
+
+  /* canonicalise → drop query-string + lowercase extension */
+  const canon = (u?: string) => (u ? u.split('?')[0] : '');
+
+  /* build lookup by canonical URL */
+  const aiByUrl = new Map(
+    analysed
+      .filter((a) => a.url)
+      .map((a) => [canon(a.url), a])
+  );
+
+  const imagesFinal = limitedImgs.map((raw) => {
+    const ai = aiByUrl.get(canon(raw.url));
+    return {
+      url: raw.url,
+      alt: ai?.alt ?? raw.alt ?? '',
+      ...(ai?.caption ? { caption: ai.caption } : {}),
+      ...(ai?.title ? { title: ai.title } : {}),
+      ...(ai?.localized ? { localized: ai.localized } : {}),
+      landing_page: raw.landingPage,
+      hash: raw.hash,
+      hash_algorithm: raw.hashAlgorithm,
+      source: raw.source,
+      category: raw.classification.category,
+      category_confidence: raw.classification.confidence,
+      score: raw.score,
+      score_reasons: raw.reasons,
+      ...(raw.dimensions ? { width: raw.dimensions.width, height: raw.dimensions.height } : {}),
+      ...(raw.contentType ? { bytes: raw.bytes, content_type: raw.contentType } : {}),
+      ...(raw.derivatives ? { derivatives: raw.derivatives } : {}),
+      ...(raw.variants?.length ? { variants: raw.variants } : {}),
+    };
+  });
+
+  console.log('Final: Returning', imagesFinal.length, 'images');
+  const crawled = pages.map(({ url, depth, discovery_path }) => ({ url, depth, discovery_path }));
+  return {
+    images: imagesFinal,
+    pages: crawled,
+    warnings,
+    timings: timer.report(),
+    usage: { pages: pages.length, ai_images: aiImages.size },
+  };
+}
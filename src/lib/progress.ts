@@ -0,0 +1,42 @@
+import { JobRecord } from './types';
+
+/* -----------------------------------------------------------
+   Progress as Server-Sent Events (GET /crawl/{job_id}/progress)
+   -----------------------------------------------------------
+   API Gateway buffers Lambda responses, so the stream is a
+   long poll: each response holds until there are events the
+   client has not seen (or the job ends, or the window closes),
+   then ends. EventSource reconnects after `retry` ms and sends
+   Last-Event-ID – the number of events it already has. A
+   retried job appends to its events, so ids never go back.
+----------------------------------------------------------- */
+
+/** Reconnect delay suggested to EventSource */
+export const SSE_RETRY_MS = 1000;
+
+export const isJobFinished = (job: JobRecord) => job.status === 'completed' || job.status === 'failed';
+
+/** Events after the first `seen`, or undefined if there are none yet. */
+export function unseenProgress(job: JobRecord, seen: number) {
+  const events = job.progress ?? [];
+  return events.length > seen ? events.slice(seen) : undefined;
+}
+
+/**
+ * SSE body for a client that has seen `seen` events: one `progress` event
+ * per new stage (id = its 1-based position), then `end` once the job is
+ * finished. A comment line alone means "nothing yet, reconnect".
+ */
+export function progressSse(job: JobRecord, seen = 0): string {
+  const lines = [`retry: ${SSE_RETRY_MS}`, ''];
+  (unseenProgress(job, seen) ?? []).forEach((event, i) => {
+    lines.push(`id: ${seen + i + 1}`, 'event: progress', `data: ${JSON.stringify(event)}`, '');
+  });
+  if (isJobFinished(job)) {
+    const end = { job_id: job.job_id, status: job.status, ...(job.error ? { error: job.error } : {}) };
+    lines.push('event: end', `data: ${JSON.stringify(end)}`, '');
+  } else if (lines.length === 2) {
+    lines.push(': waiting', '');
+  }
+  return lines.join('\n') + '\n';
+}
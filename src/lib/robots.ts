@@ -0,0 +1,224 @@
+import axios from 'axios';
+import { requestGuard } from './url-policy';
+
+/* -----------------------------------------------------------
+   robots.txt
+   -----------------------------------------------------------
+   One guard per crawl. Every outgoing request (pages,
+   stylesheets, sitemaps, images) calls `guard.check(url)`,
+   which throws RobotsDisallowedError for disallowed paths.
+   Page and sitemap fetches also wait out the host's
+   Crawl-delay; page resources (images, stylesheets) do not,
+   or a page with a hundred images would outlast the Lambda.
+----------------------------------------------------------- */
+
+/** Product token matched against User-agent lines */
+export const ROBOTS_USER_AGENT = 'saas-image-crawl';
+
+/** Longer Crawl-delay values are clamped – a Lambda run has 15 minutes */
+const MAX_CRAWL_DELAY_S = 10;
+/** Crawl-delay waited per crawl at most; later requests are not paced */
+const MAX_TOTAL_DELAY_S = 180;
+const MAX_ROBOTS_BYTES = 512 * 1024;
+
+export interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+export interface RobotsTxt {
+  rules: RobotsRule[];
+  /** Seconds between requests, if the site asks for it */
+  crawlDelay?: number;
+  /** Sitemap: lines (apply to every user agent) */
+  sitemaps: string[];
+}
+
+export class RobotsDisallowedError extends Error {
+  constructor(public readonly url: string) {
+    super(`robots.txt disallows ${url}`);
+    this.name = 'RobotsDisallowedError';
+  }
+}
+
+/**
+ * Parse robots.txt and keep the group for `userAgent` (most specific
+ * matching User-agent line, else `*`).
+ */
+export function parseRobots(text: string, userAgent = ROBOTS_USER_AGENT): RobotsTxt {
+  interface Group {
+    agents: string[];
+    rules: RobotsRule[];
+    crawlDelay?: number;
+  }
+  const groups: Group[] = [];
+  const sitemaps: string[] = [];
+  let current: Group | undefined;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const m = /^([A-Za-z-]+)\s*:\s*(.*)$/.exec(line);
+    if (!m) continue;
+    const field = m[1].toLowerCase();
+    const value = m[2].trim();
+
+    if (field === 'sitemap') {
+      if (value) sitemaps.push(value);
+      continue;
+    }
+    if (field === 'user-agent') {
+      // consecutive User-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+    lastWasAgent = false;
+    if (!current) continue;
+
+    if (field === 'allow' || field === 'disallow') {
+      // empty Disallow = allow everything
+      if (value) current.rules.push({ allow: field === 'allow', path: value });
+    } else if (field === 'crawl-delay') {
+      const delay = Number(value);
+      if (Number.isFinite(delay) && delay > 0) current.crawlDelay = delay;
+    }
+  }
+
+  const ua = userAgent.toLowerCase();
+  let best: Group | undefined;
+  let bestLength = -1;
+  for (const group of groups) {
+    for (const agent of group.agents) {
+      const length = agent === '*' ? 0 : ua.includes(agent) ? agent.length : -1;
+      if (length > bestLength) {
+        best = group;
+        bestLength = length;
+      }
+    }
+  }
+
+  return { rules: best?.rules ?? [], crawlDelay: best?.crawlDelay, sitemaps };
+}
+
+/** robots.txt path pattern (`*` wildcard, `$` end anchor) → RegExp */
+const patternCache = new Map<string, RegExp>();
+function pathPattern(path: string): RegExp {
+  let re = patternCache.get(path);
+  if (!re) {
+    const anchored = path.endsWith('$');
+    const body = (anchored ? path.slice(0, -1) : path)
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    re = new RegExp(`^${body}${anchored ? '$' : ''}`);
+    patternCache.set(path, re);
+  }
+  return re;
+}
+
+/** Longest matching rule wins; on a tie Allow wins. No rule = allowed. */
+export function isAllowed(robots: RobotsTxt, url: string): boolean {
+  const u = new URL(url);
+  const target = u.pathname + u.search;
+  let verdict: RobotsRule | undefined;
+
+  for (const rule of robots.rules) {
+    if (!pathPattern(rule.path).test(target)) continue;
+    if (
+      !verdict ||
+      rule.path.length > verdict.path.length ||
+      (rule.path.length === verdict.path.length && rule.allow)
+    ) {
+      verdict = rule;
+    }
+  }
+  return verdict?.allow ?? true;
+}
+
+const ALLOW_ALL: RobotsTxt = { rules: [], sitemaps: [] };
+
+/** Download and parse robots.txt; missing or unreachable = no rules. */
+async function fetchRobots(origin: string): Promise<RobotsTxt> {
+  try {
+    const res = await axios.get<string>(`${origin}/robots.txt`, {
+      ...requestGuard(),
+      responseType: 'text',
+      timeout: 10_000,
+      maxContentLength: MAX_ROBOTS_BYTES,
+      headers: { 'User-Agent': `${ROBOTS_USER_AGENT}/1.0.0` },
+      validateStatus: () => true,
+    });
+    if (res.status >= 400) return ALLOW_ALL;
+    return parseRobots(String(res.data ?? ''));
+  } catch (err: any) {
+    console.info(`robots: no robots.txt for ${origin}: ${err.message}`);
+    return ALLOW_ALL;
+  }
+}
+
+export interface RobotsGuardOptions {
+  /** false = skip robots.txt entirely (RESPECT_ROBOTS_TXT=false) */
+  enabled?: boolean;
+}
+
+/**
+ * Per-crawl robots.txt cache and per-host request pacing.
+ */
+export function createRobotsGuard({
+  enabled = process.env.RESPECT_ROBOTS_TXT !== 'false',
+}: RobotsGuardOptions = {}) {
+  const cache = new Map<string, Promise<RobotsTxt>>();
+  /** Earliest time the next request to an origin may start */
+  const nextSlot = new Map<string, number>();
+  let delayBudgetMs = MAX_TOTAL_DELAY_S * 1000;
+
+  const robotsFor = (url: string): Promise<RobotsTxt> => {
+    const { origin } = new URL(url);
+    let pending = cache.get(origin);
+    if (!pending) {
+      pending = enabled ? fetchRobots(origin) : Promise.resolve(ALLOW_ALL);
+      cache.set(origin, pending);
+    }
+    return pending;
+  };
+
+  return {
+    robotsFor,
+
+    /** Allowed by the URL's robots.txt? (data: URLs always are) */
+    async allowed(url: string): Promise<boolean> {
+      if (url.startsWith('data:')) return true;
+      return isAllowed(await robotsFor(url), url);
+    },
+
+    /**
+     * Throw if robots.txt disallows `url`, otherwise (unless `pace` is
+     * false) wait for the origin's Crawl-delay slot. Call right before
+     * each request.
+     */
+    async check(url: string, { pace = true }: { pace?: boolean } = {}): Promise<void> {
+      if (url.startsWith('data:')) return;
+      const robots = await robotsFor(url);
+      if (!isAllowed(robots, url)) throw new RobotsDisallowedError(url);
+      if (!robots.crawlDelay || !pace || delayBudgetMs <= 0) return;
+
+      const { origin } = new URL(url);
+      const delayMs = Math.min(robots.crawlDelay, MAX_CRAWL_DELAY_S) * 1000;
+      const now = Date.now();
+      const slot = Math.max(now, nextSlot.get(origin) ?? now);
+      nextSlot.set(origin, slot + delayMs);
+      if (slot > now) {
+        delayBudgetMs -= slot - now;
+        if (delayBudgetMs <= 0) console.info(`robots: Crawl-delay budget of ${MAX_TOTAL_DELAY_S}s used up`);
+        await new Promise((resolve) => setTimeout(resolve, slot - now));
+      }
+    },
+  };
+}
+
+export type RobotsGuard = ReturnType<typeof createRobotsGuard>;
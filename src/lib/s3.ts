@@ -39,6 +39,53 @@ export async function getObject<T = unknown>(key: string): Promise<T | undefined
   }
 }
 
+/* -----------------------------------------------------------
+   Conditional writes – records with more than one writer
+----------------------------------------------------------- */
+
+/** JSON object plus its ETag, for a later `putObjectIf`. */
+export async function getObjectVersioned<T = unknown>(
+  key: string
+): Promise<{ data: T; etag: string } | undefined> {
+  try {
+    const res = await s3.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+    const body = await streamToString(res.Body as Readable);
+    return { data: JSON.parse(body) as T, etag: res.ETag! };
+  } catch (err: any) {
+    if (err?.$metadata?.httpStatusCode === 404) return undefined;
+    throw err;
+  }
+}
+
+/**
+ * Put a JSON object only if it still has ETag `etag` (or, with `'*'` as
+ * ifNoneMatch, only if it does not exist yet). Returns false when another
+ * writer got there first – re-read and retry.
+ */
+export async function putObjectIf(
+  key: string,
+  data: unknown,
+  condition: { ifMatch: string } | { ifNoneMatch: '*' }
+): Promise<boolean> {
+  try {
+    await s3.send(
+      new PutObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        Body: JSON.stringify(data),
+        ContentType: 'application/json',
+        ...('ifMatch' in condition ? { IfMatch: condition.ifMatch } : { IfNoneMatch: condition.ifNoneMatch }),
+      })
+    );
+    return true;
+  } catch (err: any) {
+    // 412 Precondition Failed, 409 ConditionalRequestConflict (concurrent put)
+    const status = err?.$metadata?.httpStatusCode;
+    if (status === 412 || status === 409) return false;
+    throw err;
+  }
+}
+
 export async function putBinaryObject(key: string, buffer: Buffer, contentType: string, expiresInSeconds?: number) {
   await s3.send(
     new PutObjectCommand({
@@ -0,0 +1,196 @@
+import { ImagePosition, ImageSourceKind } from './html-images';
+
+/* -----------------------------------------------------------
+   Image relevance scoring
+   -----------------------------------------------------------
+   Every factor contributes signed points; callers scale each
+   factor with a weight (default 1, 0 switches it off). The
+   total is the image's score; higher = more likely a product
+   screenshot worth showing.
+----------------------------------------------------------- */
+
+export type ScoreFactor =
+  | 'size'
+  | 'aspect'
+  | 'position'
+  | 'text'
+  | 'filename'
+  | 'source'
+  | 'bytes'
+  | 'ai';
+
+export const SCORE_FACTORS: ScoreFactor[] = [
+  'size',
+  'aspect',
+  'position',
+  'text',
+  'filename',
+  'source',
+  'bytes',
+  'ai',
+];
+
+export type ScoreWeights = Record<ScoreFactor, number>;
+
+export const DEFAULT_SCORE_WEIGHTS: ScoreWeights = {
+  size: 1,
+  aspect: 1,
+  position: 1,
+  text: 1,
+  filename: 1,
+  source: 1,
+  bytes: 1,
+  ai: 1,
+};
+
+/** What the scorer looks at – all optional, missing data scores 0 */
+export interface ScoreInput {
+  url: string;
+  alt?: string;
+  context?: string;
+  source?: ImageSourceKind;
+  position?: ImagePosition;
+  dimensions?: { width: number; height: number };
+  bytes?: number;
+  /** 0–1 from an AI classifier; 0.5 = no opinion */
+  aiRelevance?: number;
+}
+
+export interface ScoreReason {
+  factor: ScoreFactor;
+  points: number;
+  detail: string;
+}
+
+export interface ImageScore {
+  score: number;
+  reasons: ScoreReason[];
+}
+
+const POSITIVE_TEXT =
+  /\b(dashboard|screenshot|interface|ui|app|product|analytics|report|editor|widget|feed|gallery|workflow|inbox|calendar|chart|preview|demo)\b/gi;
+const NEGATIVE_TEXT =
+  /\b(logo|icon|avatar|headshot|portrait|team|founder|ceo|testimonial|customer|badge|award|rating|partner|flag)\b/gi;
+const NEGATIVE_FILENAME = /(sprite|icon|logo|favicon|avatar|testimonial|badge|flag|placeholder|spacer|pixel)/i;
+
+const SOURCE_POINTS: Record<ImageSourceKind, number> = {
+  img: 10,
+  picture: 10,
+  noscript: 8,
+  'json-ld': 10,
+  'video-poster': 8,
+  'inline-style': 5,
+  'og:image': 5,
+  'twitter:image': 3,
+  'style-block': 3,
+  stylesheet: 0,
+  'inline-svg': 0,
+  network: 2,
+  screenshot: 6,
+  gpt: 0,
+};
+
+type Factor = (img: ScoreInput) => { points: number; detail: string } | undefined;
+
+const FACTORS: Record<ScoreFactor, Factor> = {
+  size: ({ dimensions }) => {
+    if (!dimensions) return undefined;
+    const max = Math.max(dimensions.width, dimensions.height);
+    const points = max >= 1600 ? 30 : max >= 1000 ? 20 : max >= 600 ? 10 : 0;
+    return { points, detail: `${dimensions.width}×${dimensions.height}` };
+  },
+
+  aspect: ({ dimensions }) => {
+    if (!dimensions?.height) return undefined;
+    const ratio = dimensions.width / dimensions.height;
+    const detail = `ratio ${ratio.toFixed(2)}`;
+    if (ratio >= 1.2 && ratio <= 2.2) return { points: 15, detail: `${detail} (screen-like)` };
+    if (ratio >= 0.9 && ratio < 1.2) return { points: 5, detail };
+    if (ratio > 3.5 || ratio < 0.4) return { points: -20, detail: `${detail} (banner/strip)` };
+    return { points: 0, detail };
+  },
+
+  position: ({ position }) => {
+    if (!position) return undefined;
+    if (position.inHero) return { points: 15, detail: 'hero section' };
+    if (position.aboveFold) return { points: 8, detail: 'above the fold' };
+    if (position.index > 30) return { points: -5, detail: `image #${position.index + 1} on page` };
+    return { points: 0, detail: `image #${position.index + 1} on page` };
+  },
+
+  text: ({ alt, context }) => {
+    const text = `${alt ?? ''} ${context ?? ''}`;
+    if (!text.trim()) return undefined;
+    const pos = [...new Set(text.match(POSITIVE_TEXT)?.map((w) => w.toLowerCase()))];
+    const neg = [...new Set(text.match(NEGATIVE_TEXT)?.map((w) => w.toLowerCase()))];
+    const points = Math.min(pos.length * 10, 20) - Math.min(neg.length * 20, 40);
+    const words = [...pos.map((w) => `+${w}`), ...neg.map((w) => `-${w}`)];
+    return { points, detail: words.length ? words.join(' ') : 'no keywords' };
+  },
+
+  filename: ({ url }) => {
+    if (url.startsWith('data:')) return undefined;
+    const m = NEGATIVE_FILENAME.exec(url.split('?')[0]);
+    return m ? { points: -40, detail: `filename contains "${m[1].toLowerCase()}"` } : undefined;
+  },
+
+  source: ({ source }) => (source ? { points: SOURCE_POINTS[source], detail: source } : undefined),
+
+  bytes: ({ bytes }) => {
+    if (bytes === undefined) return undefined;
+    const kb = Math.round(bytes / 1024);
+    if (bytes >= 200 * 1024) return { points: 5, detail: `${kb} KB` };
+    if (bytes < 10 * 1024) return { points: -10, detail: `${kb} KB` };
+    return { points: 0, detail: `${kb} KB` };
+  },
+
+  ai: ({ aiRelevance }) =>
+    aiRelevance === undefined
+      ? undefined
+      : { points: Math.round((aiRelevance - 0.5) * 60), detail: `AI relevance ${aiRelevance.toFixed(2)}` },
+};
+
+/** Score one image; reasons list every factor that had something to say. */
+export function scoreImage(img: ScoreInput, weights: Partial<ScoreWeights> = {}): ImageScore {
+  const w = { ...DEFAULT_SCORE_WEIGHTS, ...weights };
+  const reasons: ScoreReason[] = [];
+
+  for (const factor of SCORE_FACTORS) {
+    if (!w[factor]) continue;
+    const result = FACTORS[factor](img);
+    if (!result) continue;
+    const points = Math.round(result.points * w[factor] * 10) / 10;
+    reasons.push({ factor, points, detail: result.detail });
+  }
+
+  const score = Math.round(reasons.reduce((sum, r) => sum + r.points, 0) * 10) / 10;
+  return { score, reasons };
+}
+
+/** Attach scores and sort best first (ties keep discovery order). */
+export function rankImages<T extends ScoreInput>(
+  imgs: T[],
+  weights: Partial<ScoreWeights> = {}
+): (T & ImageScore)[] {
+  return imgs
+    .map((img) => ({ ...img, ...scoreImage(img, weights) }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/** Validate the `score_weights` request option. */
+export function parseScoreWeights(raw: unknown): Partial<ScoreWeights> | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw !== 'object' || Array.isArray(raw)) throw new Error('score_weights must be an object');
+
+  const out: Partial<ScoreWeights> = {};
+  for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (!(SCORE_FACTORS as string[]).includes(key)) {
+      throw new Error(`score_weights: unknown factor ${key} (known: ${SCORE_FACTORS.join(', ')})`);
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 10) {
+      throw new Error(`score_weights.${key} must be a number between 0 and 10`);
+    }
+    out[key as ScoreFactor] = value;
+  }
+  return out;
+}
@@ -0,0 +1,24 @@
+import { firecrawlScraper } from './firecrawl';
+import { httpScraper } from './http-scraper';
+import { browserScraper } from './browser-scraper';
+import { Scraper, ScraperName } from './types';
+
+const SCRAPERS: Record<ScraperName, Scraper> = {
+  firecrawl: firecrawlScraper,
+  http: httpScraper,
+  browser: browserScraper,
+};
+
+/** Own keys only – `in` would also accept "toString", "constructor", … (Object.hasOwn is ES2022) */
+export const isScraperName = (name: unknown): name is ScraperName =>
+  typeof name === 'string' && Object.prototype.hasOwnProperty.call(SCRAPERS, name);
+
+/**
+ * Pick a scraper backend: explicit request value → SCRAPER_BACKEND env →
+ * Firecrawl.
+ */
+export function getScraper(name?: ScraperName): Scraper {
+  const fromEnv = process.env.SCRAPER_BACKEND?.trim();
+  const chosen = name ?? (isScraperName(fromEnv) ? fromEnv : 'firecrawl');
+  return SCRAPERS[chosen];
+}
@@ -0,0 +1,129 @@
+import axios from 'axios';
+import { gunzipSync } from 'zlib';
+import { XMLParser } from 'fast-xml-parser';
+import { isDeniedPath } from './link-ranker';
+import { RobotsGuard } from './robots';
+import { checkUrl, requestGuard, UrlPolicy } from './url-policy';
+
+/* -----------------------------------------------------------
+   Sitemap discovery
+   -----------------------------------------------------------
+   Sitemaps declared in robots.txt (else /sitemap.xml), sitemap
+   indexes followed, .gz unpacked. Only same-site product-ish
+   paths are returned – they are merged with the homepage links
+   before the link filter.
+----------------------------------------------------------- */
+
+/** Sitemap documents fetched per crawl (indexes included) */
+const MAX_SITEMAPS = 10;
+/** Index → sitemap → … nesting we follow */
+const MAX_DEPTH = 2;
+const MAX_SITEMAP_BYTES = 20 * 1024 * 1024;
+/** Candidate URLs handed to the link filter */
+export const MAX_SITEMAP_CANDIDATES = 50;
+
+/** Paths that usually show the product (minus link-ranker's deny rules) */
+const CANDIDATE_RE =
+  /\/(features?|products?|platform|solutions?|integrations?|use-cases?|tour|how-it-works|widgets?|gallery|showcase|overview|apps?|templates?|examples?)(\/|$)/i;
+
+const parser = new XMLParser({ ignoreAttributes: true, removeNSPrefix: true });
+
+const asArray = <T>(v: T | T[] | undefined): T[] => (v === undefined ? [] : Array.isArray(v) ? v : [v]);
+
+/** `<loc>` lists of a sitemap or sitemap index. */
+export function parseSitemap(xml: string): { sitemaps: string[]; urls: string[] } {
+  const doc = parser.parse(xml);
+  const locs = (entries: any) =>
+    asArray(entries)
+      .map((e: any) => (typeof e?.loc === 'string' ? e.loc.trim() : undefined))
+      .filter((l): l is string => !!l);
+  return {
+    sitemaps: locs(doc?.sitemapindex?.sitemap),
+    urls: locs(doc?.urlset?.url),
+  };
+}
+
+/** Download one sitemap; gzip is detected by magic bytes, not the name. */
+async function fetchSitemap(url: string, robots: RobotsGuard, policy?: UrlPolicy): Promise<string> {
+  checkUrl(url, policy);
+  await robots.check(url);
+  const { data } = await axios.get<ArrayBuffer>(url, {
+    ...requestGuard(policy),
+    responseType: 'arraybuffer',
+    timeout: 15_000,
+    maxContentLength: MAX_SITEMAP_BYTES,
+    headers: { 'User-Agent': 'saas-image-crawl/1.0.0' },
+    decompress: true,
+  });
+  const buf = Buffer.from(new Uint8Array(data));
+  if (buf[0] !== 0x1f || buf[1] !== 0x8b) return buf.toString('utf-8');
+  try {
+    // a few KB of gzip can unpack to gigabytes
+    return gunzipSync(buf, { maxOutputLength: MAX_SITEMAP_BYTES }).toString('utf-8');
+  } catch (err: any) {
+    // RangeError from maxOutputLength
+    if (err?.code === 'ERR_BUFFER_TOO_LARGE') throw new Error(`unpacks to more than ${MAX_SITEMAP_BYTES} bytes`);
+    throw err;
+  }
+}
+
+/** Product-ish, same-site URLs, shallowest paths first. */
+export function sitemapCandidates(urls: string[], siteUrl: string, max = MAX_SITEMAP_CANDIDATES): string[] {
+  const host = new URL(siteUrl).hostname.replace(/^www\./, '');
+  const out = new Map<string, number>();
+
+  for (const raw of urls) {
+    let u: URL;
+    try {
+      u = new URL(raw);
+    } catch {
+      continue;
+    }
+    if (u.hostname.replace(/^www\./, '') !== host) continue;
+    if (!CANDIDATE_RE.test(u.pathname) || isDeniedPath(u.pathname)) continue;
+    u.hash = '';
+    out.set(u.href, u.pathname.split('/').filter(Boolean).length);
+  }
+
+  // stable sort: equal depth keeps sitemap order
+  return [...out.entries()]
+    .sort((a, b) => a[1] - b[1])
+    .slice(0, max)
+    .map(([url]) => url);
+}
+
+/**
+ * Walk the site's sitemaps and return candidate pages. Never throws –
+ * a site without sitemaps just yields [].
+ */
+export async function discoverSitemapLinks(
+  siteUrl: string,
+  robots: RobotsGuard,
+  policy?: UrlPolicy
+): Promise<string[]> {
+  const { origin } = new URL(siteUrl);
+  const declared = (await robots.robotsFor(siteUrl)).sitemaps;
+  let queue = declared.length ? declared : [`${origin}/sitemap.xml`];
+  const seen = new Set<string>();
+  const urls: string[] = [];
+
+  for (let depth = 0; depth <= MAX_DEPTH && queue.length; depth++) {
+    const next: string[] = [];
+    for (const sitemapUrl of queue) {
+      if (seen.has(sitemapUrl) || seen.size >= MAX_SITEMAPS) continue;
+      seen.add(sitemapUrl);
+      try {
+        const parsed = parseSitemap(await fetchSitemap(sitemapUrl, robots, policy));
+        next.push(...parsed.sitemaps);
+        urls.push(...parsed.urls);
+      } catch (err: any) {
+        console.info(`discoverSitemapLinks: skipping ${sitemapUrl}: ${err.message}`);
+      }
+    }
+    queue = next;
+  }
+
+  const candidates = sitemapCandidates(urls, siteUrl);
+  console.info(`discoverSitemapLinks: ${urls.length} URLs in ${seen.size} sitemaps, ${candidates.length} candidates`);
+  return candidates;
+}
@@ -0,0 +1,157 @@
+import crypto from 'crypto';
+import { getObject, getObjectVersioned, putObject, putObjectIf, sha256 } from './s3';
+import { CrawlError, invalidRequest } from './errors';
+import { envNumber } from './limits';
+
+/* -----------------------------------------------------------
+   Tenants and API keys
+   -----------------------------------------------------------
+   Every API call carries `X-Api-Key: <key>` (or
+   `Authorization: Bearer <key>`). Keys are stored hashed,
+   api-keys/<sha256>.json → { tenant_id }, next to the tenant
+   record tenants/<id>/tenant.json. A tenant's jobs, batches,
+   cached scrapes, uploaded images and usage counters live under
+   tenants/<id>/, so ids only have to be unique per tenant.
+   Each tenant has its own webhook signing secret. Provision
+   with create-api-key.cjs.
+----------------------------------------------------------- */
+
+export interface TenantLimits {
+  /** Job-creating requests (POST /crawl, POST /crawl/batch) per minute */
+  rate_per_minute: number;
+  /** Jobs per calendar month (UTC); a batch counts one per URL */
+  monthly_crawls: number;
+  /** Pages scraped per month in step 3 (the homepage comes with the crawl) */
+  monthly_pages: number;
+  /** Images sent to a vision model per month */
+  monthly_ai_images: number;
+}
+
+export interface Tenant {
+  tenant_id: string;
+  name?: string;
+  /** Overrides of DEFAULT_TENANT_LIMITS */
+  limits?: Partial<TenantLimits>;
+  /** Disabled tenants' keys are refused */
+  disabled?: boolean;
+  /** HMAC key for this tenant's webhooks (`whsec_…`); WEBHOOK_SECRET signs when unset */
+  webhook_secret?: string;
+  created_at: string;
+}
+
+interface ApiKeyRecord {
+  tenant_id: string;
+  created_at: string;
+}
+
+export const DEFAULT_TENANT_LIMITS: TenantLimits = {
+  rate_per_minute: envNumber('TENANT_RATE_PER_MINUTE', 30),
+  monthly_crawls: envNumber('TENANT_MONTHLY_CRAWLS', 1000),
+  monthly_pages: envNumber('TENANT_MONTHLY_PAGES', 10000),
+  monthly_ai_images: envNumber('TENANT_MONTHLY_AI_IMAGES', 10000),
+};
+
+/** Tenant ids end up in S3 keys – same alphabet as job ids. */
+const TENANT_ID_RE = /^[A-Za-z0-9_-]{1,64}$/;
+
+/** Conditional-put attempts before giving up on a contended tenant record */
+const UPDATE_ATTEMPTS = 10;
+
+/** Resolved keys are reused this long by a warm container */
+const KEY_CACHE_MS = 60_000;
+
+const apiKeyKey = (apiKey: string) => `api-keys/${sha256(apiKey)}.json`;
+const tenantKey = (tenantId: string) => `tenants/${tenantId}/tenant.json`;
+
+/** Where a tenant's jobs, batches and webhook logs go ('' = records without a tenant, e.g. local scripts) */
+export const recordPrefix = (tenantId?: string) => (tenantId ? `tenants/${tenantId}/` : '');
+/** Where a tenant's cached scrapes go ('' = the shared pre-tenant cache) */
+export const cachePrefix = (tenantId?: string) => (tenantId ? `tenants/${tenantId}/cache/` : '');
+/** Where a tenant's uploaded images go */
+export const imagePrefix = (tenantId?: string) => (tenantId ? `tenants/${tenantId}/images/` : 'all/');
+
+const newWebhookSecret = () => `whsec_${crypto.randomBytes(24).toString('base64url')}`;
+
+export const tenantLimits = (tenant: Tenant): TenantLimits => ({ ...DEFAULT_TENANT_LIMITS, ...tenant.limits });
+
+/** Load a tenant record; undefined if it does not exist. */
+export const getTenant = (tenantId: string) => getObject<Tenant>(tenantKey(tenantId));
+
+/** The caller's key from X-Api-Key or a Bearer token (header names are lower-case in HTTP API events). */
+export function apiKeyFrom(headers: Record<string, string | undefined> = {}): string | undefined {
+  const key = headers['x-api-key'] ?? /^Bearer\s+(\S+)$/i.exec(headers.authorization ?? '')?.[1];
+  return key?.trim() || undefined;
+}
+
+/** Known keys only: a key created a moment ago must work on the next request */
+const keyCache = new Map<string, { tenant: Tenant; expires: number }>();
+
+async function tenantForKey(apiKey: string): Promise<Tenant | undefined> {
+  const cached = keyCache.get(apiKey);
+  if (cached && cached.expires > Date.now()) return cached.tenant;
+
+  const record = await getObject<ApiKeyRecord>(apiKeyKey(apiKey));
+  const tenant = record ? await getTenant(record.tenant_id) : undefined;
+  if (tenant) keyCache.set(apiKey, { tenant, expires: Date.now() + KEY_CACHE_MS });
+  else keyCache.delete(apiKey);
+  return tenant;
+}
+
+/** The tenant behind the request's API key; throws an UNAUTHORIZED CrawlError. */
+export async function authenticate(event: { headers?: Record<string, string | undefined> }): Promise<Tenant> {
+  const apiKey = apiKeyFrom(event.headers);
+  if (!apiKey) throw new CrawlError('UNAUTHORIZED', 'API key missing (X-Api-Key header)');
+  const tenant = await tenantForKey(apiKey);
+  if (!tenant) throw new CrawlError('UNAUTHORIZED', 'invalid API key');
+  if (tenant.disabled) throw new CrawlError('UNAUTHORIZED', `tenant ${tenant.tenant_id} is disabled`);
+  return tenant;
+}
+
+/** Create a tenant; fails if the id is taken. */
+export async function createTenant(
+  tenantId: string,
+  { name, limits }: { name?: string; limits?: Partial<TenantLimits> } = {}
+): Promise<Tenant> {
+  if (!TENANT_ID_RE.test(tenantId)) throw invalidRequest('tenant_id may only contain letters, digits, _ and -', 'tenant_id');
+  const tenant: Tenant = {
+    tenant_id: tenantId,
+    ...(name ? { name } : {}),
+    ...(limits ? { limits } : {}),
+    webhook_secret: newWebhookSecret(),
+    created_at: new Date().toISOString(),
+  };
+  if (!(await putObjectIf(tenantKey(tenantId), tenant, { ifNoneMatch: '*' }))) {
+    throw invalidRequest(`tenant ${tenantId} already exists`, 'tenant_id');
+  }
+  return tenant;
+}
+
+/**
+ * Give a tenant a new webhook signing secret and return it. Signatures
+ * made with the old one stop verifying at once.
+ */
+export async function rotateWebhookSecret(tenantId: string): Promise<string> {
+  for (let i = 0; i < UPDATE_ATTEMPTS; i++) {
+    const current = await getObjectVersioned<Tenant>(tenantKey(tenantId));
+    if (!current) throw new Error(`tenant ${tenantId} not found`);
+    const secret = newWebhookSecret();
+    const next: Tenant = { ...current.data, webhook_secret: secret };
+    if (await putObjectIf(tenantKey(tenantId), next, { ifMatch: current.etag })) return secret;
+    await new Promise((resolve) => setTimeout(resolve, 50 + Math.random() * 200));
+  }
+  throw new Error(`tenant ${tenantId}: too much contention`);
+}
+
+/** Secret that signs a tenant's webhooks; undefined without a tenant or one of its own. */
+export async function tenantWebhookSecret(tenantId?: string): Promise<string | undefined> {
+  return tenantId ? (await getTenant(tenantId))?.webhook_secret : undefined;
+}
+
+/** Issue a new key for an existing tenant. The plain key is only ever returned here. */
+export async function issueApiKey(tenantId: string): Promise<string> {
+  if (!(await getTenant(tenantId))) throw new Error(`tenant ${tenantId} not found`);
+  const apiKey = `ick_${crypto.randomBytes(24).toString('base64url')}`;
+  const record: ApiKeyRecord = { tenant_id: tenantId, created_at: new Date().toISOString() };
+  await putObject(apiKeyKey(apiKey), record);
+  return apiKey;
+}
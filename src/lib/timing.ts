@@ -0,0 +1,39 @@
+/** Accumulated wall-clock time per named stage (e.g. download, hash). */
+export interface StageTiming {
+  ms: number;
+  count: number;
+}
+
+export type StageTimings = Record<string, StageTiming>;
+
+/**
+ * Collects per-stage timings. Stages may run concurrently, so `ms` is the
+ * sum of individual call durations, not elapsed time.
+ */
+export function createStageTimer() {
+  const timings: StageTimings = {};
+
+  const record = (stage: string, ms: number) => {
+    const t = (timings[stage] ??= { ms: 0, count: 0 });
+    t.ms += ms;
+    t.count++;
+  };
+
+  return {
+    async time<T>(stage: string, fn: () => Promise<T>): Promise<T> {
+      const start = Date.now();
+      try {
+        return await fn();
+      } finally {
+        record(stage, Date.now() - start);
+      }
+    },
+    record,
+    /** Plain-object snapshot, safe to serialise */
+    report(): StageTimings {
+      return JSON.parse(JSON.stringify(timings));
+    },
+  };
+}
+
+export type StageTimer = ReturnType<typeof createStageTimer>;
@@ -0,0 +1,155 @@
+import sharp from 'sharp';
+import { detectImageFormat, FORMAT_INFO, ImageFormat } from './image-format';
+
+/* -----------------------------------------------------------
+   Image normalisation before upload (request `transform`)
+   -----------------------------------------------------------
+   Output format, max width, metadata stripping and optional SVG
+   rasterising, plus thumbnail derivatives. Images that need
+   none of it are uploaded byte-for-byte. Format and MIME type
+   always come from the bytes (image-format.ts), never the URL.
+----------------------------------------------------------- */
+
+export type OutputFormat = 'original' | 'webp' | 'jpeg' | 'png' | 'avif';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['original', 'webp', 'jpeg', 'png', 'avif'];
+
+export interface TransformOptions {
+  /** `original` keeps the source format (AVIF/HEIF/TIFF become WebP) */
+  format: OutputFormat;
+  /** Downscale wider images to this width (never upscales) */
+  max_width?: number;
+  /** Drop EXIF / XMP / IPTC (re-encodes images that carry any) */
+  strip_metadata: boolean;
+  /** Render SVGs to a raster format instead of uploading the vector */
+  rasterize_svg: boolean;
+  /** Widths of extra, smaller copies */
+  thumbnails: number[];
+}
+
+export const DEFAULT_TRANSFORM_OPTIONS: TransformOptions = {
+  format: 'original',
+  strip_metadata: true,
+  rasterize_svg: false,
+  thumbnails: [],
+};
+
+const MIN_WIDTH = 16;
+const MAX_WIDTH = 8192;
+const MAX_THUMBNAILS = 5;
+const QUALITY = 82;
+
+/** Source formats `original` keeps; everything else becomes WebP */
+const KEPT_FORMATS: ImageFormat[] = ['jpeg', 'png', 'webp', 'gif'];
+
+/** One encoded image (the main copy or a thumbnail) */
+export interface TransformedImage {
+  buffer: Buffer;
+  ext: string;
+  contentType: string;
+  width: number;
+  height: number;
+}
+
+export interface TransformResult extends TransformedImage {
+  /** Smallest first; widths at or above the image's own width are skipped */
+  thumbnails: TransformedImage[];
+}
+
+/** Source format → what `original` writes */
+function keepFormat(format: ImageFormat): ImageFormat {
+  if (format === 'svg') return 'png'; // only reached when rasterising
+  return KEPT_FORMATS.includes(format) ? format : 'webp';
+}
+
+async function encode(
+  input: Buffer,
+  format: ImageFormat,
+  { width, animated = false, keepMetadata = false }: { width?: number; animated?: boolean; keepMetadata?: boolean }
+): Promise<TransformedImage> {
+  let pipeline = sharp(input, { animated }).rotate(); // bake in EXIF orientation
+  if (width) pipeline = pipeline.resize({ width, withoutEnlargement: true });
+  if (keepMetadata) pipeline = pipeline.withMetadata();
+  const { data, info } = await pipeline
+    .toFormat(format as keyof sharp.FormatEnum, { quality: QUALITY })
+    .toBuffer({ resolveWithObject: true });
+  return { buffer: data, ...FORMAT_INFO[format], width: info.width, height: info.pageHeight ?? info.height };
+}
+
+/**
+ * Normalise one downloaded image. Throws if it is not an image or sharp
+ * cannot decode it (BMP, ICO) – the caller decides what to do instead.
+ */
+export async function transformImage(
+  input: Buffer,
+  options: Partial<TransformOptions> = {}
+): Promise<TransformResult> {
+  const opts = { ...DEFAULT_TRANSFORM_OPTIONS, ...options };
+  const source = detectImageFormat(input);
+  if (!source) throw new Error('not an image');
+  const meta = await sharp(input).metadata();
+  const width = meta.width ?? 0;
+  const height = meta.pageHeight ?? meta.height ?? 0;
+  const vector = source === 'svg' && !opts.rasterize_svg;
+
+  const format: ImageFormat = vector ? 'svg' : opts.format === 'original' ? keepFormat(source) : opts.format;
+  const resize = !vector && opts.max_width !== undefined && width > opts.max_width;
+  const hasMetadata = !!(meta.exif || meta.xmp || meta.iptc);
+  const reencode = format !== source || resize || (opts.strip_metadata && hasMetadata);
+  const animated = (meta.pages ?? 1) > 1 && (format === 'gif' || format === 'webp');
+
+  const main = reencode
+    ? await encode(input, format, {
+        width: resize ? opts.max_width : undefined,
+        animated,
+        keepMetadata: !opts.strip_metadata,
+      })
+    : { buffer: input, ...FORMAT_INFO[format], width, height };
+
+  // thumbnails are always raster and single-frame
+  const thumbFormat = format === 'svg' || format === 'gif' ? 'webp' : format;
+  const widths = [...new Set(opts.thumbnails)].filter((w) => w < main.width).sort((a, b) => a - b);
+  const thumbnails: TransformedImage[] = [];
+  for (const w of widths) thumbnails.push(await encode(input, thumbFormat, { width: w }));
+
+  return { ...main, thumbnails };
+}
+
+/** Validate the `transform` request option; throws with a readable message. */
+export function parseTransformOptions(raw: unknown): Partial<TransformOptions> | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw !== 'object' || Array.isArray(raw)) throw new Error('transform must be an object');
+
+  const { format, max_width, strip_metadata, rasterize_svg, thumbnails, ...rest } = raw as Record<string, unknown>;
+  const unknown = Object.keys(rest);
+  if (unknown.length) throw new Error(`transform: unknown option ${unknown.join(', ')}`);
+
+  const isWidth = (w: unknown): w is number =>
+    Number.isInteger(w) && (w as number) >= MIN_WIDTH && (w as number) <= MAX_WIDTH;
+
+  const out: Partial<TransformOptions> = {};
+  if (format !== undefined) {
+    if (!(OUTPUT_FORMATS as unknown[]).includes(format)) {
+      throw new Error(`transform.format must be one of ${OUTPUT_FORMATS.join(', ')}`);
+    }
+    out.format = format as OutputFormat;
+  }
+  if (max_width !== undefined) {
+    if (!isWidth(max_width)) throw new Error(`transform.max_width must be an integer between ${MIN_WIDTH} and ${MAX_WIDTH}`);
+    out.max_width = max_width;
+  }
+  for (const [key, value] of [['strip_metadata', strip_metadata], ['rasterize_svg', rasterize_svg]] as const) {
+    if (value === undefined) continue;
+    if (typeof value !== 'boolean') throw new Error(`transform.${key} must be a boolean`);
+    out[key] = value;
+  }
+  if (thumbnails !== undefined) {
+    if (!Array.isArray(thumbnails) || thumbnails.length > MAX_THUMBNAILS || !thumbnails.every(isWidth)) {
+      throw new Error(
+        `transform.thumbnails must be up to ${MAX_THUMBNAILS} widths between ${MIN_WIDTH} and ${MAX_WIDTH}`
+      );
+    }
+    out.thumbnails = thumbnails;
+  }
+  return out;
+}
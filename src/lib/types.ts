@@ -1,12 +1,273 @@
+import { AiConfig } from './llm';
+import { CrawlLimits } from './limits';
+import { StageTimings } from './timing';
+import { HashAlgorithm, ImageHash } from './phash';
+import { ImageSourceKind, ImageVariant } from './html-images';
+import { ScoreReason, ScoreWeights } from './scoring';
+import { ImageCategory } from './image-categories';
+import { AltText, AltTextOptions } from './alt-text';
+import { LinkRules } from './link-ranker';
+import { PathScope } from './page-crawl';
+import { TransformOptions } from './transform';
+import { ErrorCode } from './errors';
+import { UrlPolicy } from './url-policy';
+
 export interface FirecrawlOptions {
   onlyMainContent: boolean;
   formats: ('rawHtml' | 'links' | 'metadata')[];
   maxAge?: number;
   storeInCache?: boolean;
+  /** Also capture viewport and element screenshots (browser scraper only) */
+  screenshots?: boolean;
+  /** Domain allow/deny lists for every URL the scraper fetches */
+  policy?: UrlPolicy;
+}
+
+/** A rendered capture of part of a page, as a PNG data: URL */
+export interface PageScreenshot {
+  url: string;
+  /** The first viewport, or one hero / product-demo element */
+  kind: 'viewport' | 'element';
+  inHero: boolean;
+  /** Page title (viewport) or the element's text */
+  context?: string;
 }
 
 export interface FirecrawlResponse {
-  rawHTML?: string;
+  rawHtml?: string;
   links?: string[];
   metadata?: Record<string, unknown>;
+  /** Image URLs requested while rendering (browser scraper only) */
+  imageRequests?: string[];
+  screenshots?: PageScreenshot[];
+}
+
+/* -----------------------------------------------------------
+   Scraper backends
+----------------------------------------------------------- */
+
+export type ScraperName = 'firecrawl' | 'http' | 'browser';
+
+/** A page fetcher: links + raw HTML + metadata, Firecrawl-shaped. */
+export interface Scraper {
+  name: ScraperName;
+  scrape(url: string, options: FirecrawlOptions): Promise<FirecrawlResponse>;
+}
+
+/* -----------------------------------------------------------
+   Crawl jobs
+----------------------------------------------------------- */
+
+/** Options accepted by POST /crawl (limits already clamped) */
+export interface CrawlRequest extends CrawlLimits, PathScope {
+  url: string;
+  force_refresh: boolean;
+  webhook_url?: string;
+  /** Scraper backend; defaults to SCRAPER_BACKEND or firecrawl */
+  scraper?: ScraperName;
+  /** Per-step provider/model overrides */
+  ai?: AiConfig;
+  /** Perceptual hash used for dedupe (default phash) */
+  hash_algorithm?: HashAlgorithm;
+  /** Max Hamming distance treated as duplicate, 0–64 (default 8) */
+  hash_threshold?: number;
+  /** Per-factor multipliers for relevance scoring (default 1, 0 = off) */
+  score_weights?: Partial<ScoreWeights>;
+  /** Drop images scoring below this */
+  min_score?: number;
+  /** Only return images of these categories */
+  categories?: ImageCategory[];
+  /** Languages, length, tone and extra fields for step 5 */
+  alt_text?: Partial<AltTextOptions>;
+  /** Extra allow/deny patterns for the step-2 link rules */
+  link_rules?: LinkRules;
+  /** Output format, max width, metadata and thumbnails of uploaded images */
+  transform?: Partial<TransformOptions>;
+  /** Capture viewport and hero / demo element screenshots (browser scraper) */
+  screenshots?: boolean;
+  /** Domains the crawl may (not) fetch pages and images from */
+  url_policy?: UrlPolicy;
+  /** Set on jobs created by POST /crawl/batch */
+  batch_id?: string;
+  /** Owner (from the API key); scopes the cache and image uploads */
+  tenant_id?: string;
+}
+
+/** One image in the final job result */
+export interface CrawlImage {
+  url: string;
+  /** In the first requested language */
+  alt: string;
+  caption?: string;
+  title?: string;
+  /** alt / caption / title per language, when several were requested */
+  localized?: Record<string, AltText>;
+  landing_page: string;
+  hash: string;
+  /** `sha256` when the bytes could not be decoded */
+  hash_algorithm: ImageHash['algorithm'];
+  /** Where on the page the image was found */
+  source?: ImageSourceKind;
+  /** Other srcset / <picture> candidates of the same image (original URLs) */
+  variants?: ImageVariant[];
+  /** What the image shows (AI for the top candidates, heuristic otherwise) */
+  category: ImageCategory;
+  /** 0–1 */
+  category_confidence: number;
+  /** Relevance score – images are returned best first */
+  score: number;
+  /** Points contributed by each scoring factor */
+  score_reasons: ScoreReason[];
+  /** Pixel size of the returned copy */
+  width?: number;
+  height?: number;
+  /** Size and MIME type of the returned copy (set once uploaded) */
+  bytes?: number;
+  content_type?: string;
+  /** Thumbnails requested with `transform.thumbnails`, smallest first */
+  derivatives?: ImageDerivative[];
+}
+
+/** A smaller copy of a returned image */
+export interface ImageDerivative {
+  url: string;
+  width: number;
+  height: number;
+  bytes: number;
+  content_type: string;
+}
+
+/** Non-fatal problem recorded on the job (e.g. alt text for one image failed) */
+export interface CrawlWarning {
+  step: string;
+  url?: string;
+  message: string;
+}
+
+/** A page scraped in step 3 */
+export interface CrawlPage {
+  url: string;
+  /** 1 = linked from the homepage */
+  depth: number;
+  /** Homepage → … → this page */
+  discovery_path: string[];
+}
+
+/** What the pipeline hands back to the worker */
+export interface CrawlResult {
+  images: CrawlImage[];
+  pages: CrawlPage[];
+  warnings: CrawlWarning[];
+  /** Time spent per image stage (download, hash, probe, convert, upload) */
+  timings: StageTimings;
+  /** What counts against the tenant's monthly quota */
+  usage: { pages: number; ai_images: number };
+}
+
+/** Pipeline stage boundaries reported as progress events */
+export type ProgressStage =
+  | 'homepage_scraped'
+  | 'links_kept'
+  | 'pages_scraped'
+  | 'candidates_found'
+  | 'deduped'
+  | 'filtered'
+  | 'uploaded'
+  | 'analysed';
+
+/** Emitted when a stage finishes; stored on the job and sent as `job.progress` */
+export interface ProgressEvent {
+  stage: ProgressStage;
+  /** Pipeline step the stage belongs to (1…5) */
+  step: number;
+  at: string;
+  /** Since the pipeline started */
+  elapsed_ms: number;
+  /** What the stage produced, e.g. `{ links: 42 }` */
+  counts: Record<string, number>;
+  /** Worker invocation that reached it (set by the worker; a retry starts at 2) */
+  attempt?: number;
+}
+
+/** `step_N` while the pipeline is running, N = 1…5 */
+export type JobStatus = 'queued' | 'started' | `step_${number}` | 'completed' | 'failed';
+
+/** Persisted job record (S3: tenants/<tenant_id>/jobs/<job_id>.json, jobs/<job_id>.json without a tenant) */
+export interface JobRecord {
+  job_id: string;
+  status: JobStatus;
+  step?: number;
+  step_name?: string;
+  source_url: string;
+  request: CrawlRequest;
+  created_at: string;
+  updated_at: string;
+  started_at?: string;
+  /** Worker invocations so far – Lambda retries a crashed one */
+  attempts?: number;
+  completed_at?: string;
+  processing_time_ms?: number;
+  images?: CrawlImage[];
+  pages?: CrawlPage[];
+  warnings?: CrawlWarning[];
+  timings?: StageTimings;
+  /** Stage boundaries reached so far, oldest first; a retry appends to them */
+  progress?: ProgressEvent[];
+  error?: string;
+  /** Catalogue code (see errors.ts), e.g. SCRAPE_FAILED */
+  error_code?: ErrorCode;
+  /** Error class, e.g. AiOutputError */
+  error_type?: string;
+  /** Pipeline step that failed (see STEP_NAMES) */
+  error_step?: string;
+  details?: unknown;
+}
+
+/* -----------------------------------------------------------
+   Batches (POST /crawl/batch)
+----------------------------------------------------------- */
+
+export type BatchStatus = 'running' | 'completed';
+
+/** Persisted batch record (S3: tenants/<tenant_id>/batches/<batch_id>.json) */
+export interface BatchRecord {
+  batch_id: string;
+  status: BatchStatus;
+  tenant_id?: string;
+  /** Called once, when the last job has finished */
+  webhook_url?: string;
+  job_ids: string[];
+  /** Final status of every finished job */
+  finished: Record<string, 'completed' | 'failed'>;
+  created_at: string;
+  updated_at: string;
+  completed_at?: string;
+}
+
+/* -----------------------------------------------------------
+   Webhooks
+----------------------------------------------------------- */
+
+export type WebhookEvent = 'job.started' | 'job.progress' | 'job.completed' | 'job.failed' | 'batch.completed';
+
+/** One POST of a delivery */
+export interface WebhookAttempt {
+  at: string;
+  /** Receiver's HTTP status, if it answered */
+  status_code?: number;
+  /** Set when the attempt failed (non-2xx, timeout, DNS, …) */
+  error?: string;
+  duration_ms: number;
+}
+
+/** Outcome of one delivery, logged next to its job or batch (…/jobs/<job_id>/webhooks.json); the body is stored separately */
+export interface WebhookDelivery {
+  delivery_id: string;
+  event: WebhookEvent;
+  url: string;
+  status: 'delivered' | 'failed';
+  attempts: WebhookAttempt[];
+  created_at: string;
+  /** The delivery this one resent */
+  redelivery_of?: string;
 }
@@ -0,0 +1,232 @@
+import dns from 'dns';
+import net from 'net';
+
+/* -----------------------------------------------------------
+   URL policy (SSRF protection)
+   -----------------------------------------------------------
+   Everything we fetch – the site, the links a model picked,
+   image and stylesheet URLs from the HTML, sitemaps, webhooks –
+   comes from outside. Before each request the URL must be
+   http(s), pass the request's `url_policy` domain lists, and
+   resolve to public addresses only. Axios calls also spread
+   requestGuard(): the check runs again at connect time (no DNS
+   rebinding) and on every redirect hop. Other clients connect
+   through socketLookup (browser proxy, LLM endpoints).
+   ALLOW_PRIVATE_URLS=true lifts the address check for local
+   development against fixture servers.
+----------------------------------------------------------- */
+
+export const MAX_REDIRECTS = 5;
+
+export interface UrlPolicy {
+  /** Only these domains (and their subdomains) may be fetched */
+  allow_domains?: string[];
+  /** Never fetch these domains (and their subdomains); wins over allow */
+  deny_domains?: string[];
+}
+
+const MAX_DOMAINS = 50;
+
+export class UrlBlockedError extends Error {
+  constructor(public readonly url: string, public readonly reason: string) {
+    super(`URL blocked (${reason}): ${url}`);
+    this.name = 'UrlBlockedError';
+  }
+}
+
+/**
+ * Did `err` come from the policy? Axios wraps errors thrown in its lookup
+ * (`cause`), follow-redirects wraps those thrown on a redirect again.
+ */
+export function isUrlBlocked(err: unknown): boolean {
+  for (let e: any = err, depth = 0; e && depth < 5; e = e.cause, depth++) {
+    if (e instanceof UrlBlockedError) return true;
+  }
+  return false;
+}
+
+/** Loopback, private, link-local (cloud metadata), CGNAT, multicast, reserved */
+const BLOCKED_RANGES = new net.BlockList();
+for (const [prefix, bits] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_RANGES.addSubnet(prefix, bits, 'ipv4');
+}
+for (const [prefix, bits] of [
+  ['::', 128],
+  ['::1', 128],
+  ['100::', 64],
+  ['2001:db8::', 32],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['fec0::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_RANGES.addSubnet(prefix, bits, 'ipv6');
+}
+
+/** Names that never reach the public internet, whatever DNS says */
+const BLOCKED_HOSTNAMES = /(^|\.)(localhost|local|internal|localdomain)$/i;
+
+const privateUrlsAllowed = () => process.env.ALLOW_PRIVATE_URLS === 'true';
+
+/** IPv4 embedded in an IPv6 address (mapped ::ffff:a.b.c.d, NAT64 64:ff9b::a.b.c.d) */
+function embeddedIpv4(ip: string): string | undefined {
+  const m = /^(?:::ffff:|64:ff9b::)(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/i.exec(ip);
+  if (!m) return undefined;
+  if (m[1]) return m[1];
+  const hi = parseInt(m[2], 16);
+  const lo = parseInt(m[3], 16);
+  return [hi >> 8, hi & 255, lo >> 8, lo & 255].join('.');
+}
+
+/** Is `ip` an address we must not connect to? */
+export function isBlockedAddress(ip: string): boolean {
+  const family = net.isIP(ip);
+  if (family === 4) return BLOCKED_RANGES.check(ip, 'ipv4');
+  if (family === 6) {
+    const v4 = embeddedIpv4(ip);
+    return v4 ? BLOCKED_RANGES.check(v4, 'ipv4') : BLOCKED_RANGES.check(ip, 'ipv6');
+  }
+  return true; // not an address at all
+}
+
+const matchesDomain = (host: string, domain: string) => host === domain || host.endsWith(`.${domain}`);
+
+/**
+ * Everything that can be decided without DNS: scheme, credentials, the
+ * domain lists, literal IPs and internal names. Throws UrlBlockedError.
+ */
+export function checkUrl(url: string, policy: UrlPolicy = {}): URL {
+  let u: URL;
+  try {
+    u = new URL(url);
+  } catch {
+    throw new UrlBlockedError(url, 'malformed URL');
+  }
+  if (!/^https?:$/.test(u.protocol)) throw new UrlBlockedError(url, `scheme ${u.protocol}`);
+  if (u.username || u.password) throw new UrlBlockedError(url, 'credentials in URL');
+
+  const host = u.hostname.toLowerCase().replace(/\.$/, '').replace(/^\[(.*)\]$/, '$1');
+  if (policy.deny_domains?.some((d) => matchesDomain(host, d))) throw new UrlBlockedError(url, 'denied domain');
+  if (policy.allow_domains && !policy.allow_domains.some((d) => matchesDomain(host, d))) {
+    throw new UrlBlockedError(url, 'domain not allowed');
+  }
+
+  if (!privateUrlsAllowed()) {
+    if (net.isIP(host) && isBlockedAddress(host)) throw new UrlBlockedError(url, 'private address');
+    if (BLOCKED_HOSTNAMES.test(host)) throw new UrlBlockedError(url, 'internal hostname');
+  }
+  return u;
+}
+
+/** checkUrl as a predicate (for filtering link lists) */
+export function passesUrlPolicy(url: string, policy: UrlPolicy = {}): boolean {
+  try {
+    checkUrl(url, policy);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Resolve `hostname`; reject if any address is blocked (one bad record is enough). */
+async function resolvePublic(hostname: string, url: string): Promise<dns.LookupAddress[]> {
+  const addresses = await dns.promises.lookup(hostname, { all: true, verbatim: true });
+  if (!privateUrlsAllowed()) {
+    const blocked = addresses.find((a) => isBlockedAddress(a.address));
+    if (blocked) throw new UrlBlockedError(url, `resolves to private address ${blocked.address}`);
+  }
+  return addresses;
+}
+
+/**
+ * checkUrl plus DNS: every address of the host must be public. For
+ * requests we do not make through axios (Firecrawl target, browser).
+ */
+export async function assertUrlAllowed(url: string, policy: UrlPolicy = {}): Promise<void> {
+  const u = checkUrl(url, policy);
+  const host = u.hostname.replace(/^\[(.*)\]$/, '$1');
+  if (!net.isIP(host)) await resolvePublic(host, url);
+}
+
+/** Axios `lookup`: connect only to public addresses (checked after resolving) */
+async function guardedLookup(hostname: string, options: { family?: number }): Promise<[string, number]> {
+  const addresses = await resolvePublic(hostname, hostname);
+  const pick = addresses.find((a) => !options.family || a.family === options.family) ?? addresses[0];
+  return [pick.address, pick.family];
+}
+
+/**
+ * net / http.Agent `lookup` with the guardedLookup check: the socket
+ * connects to the address that was checked. Answers `all` lookups too
+ * (Node tries IPv4 and IPv6 in turn).
+ */
+export const socketLookup: net.LookupFunction = (hostname, options, callback) => {
+  resolvePublic(hostname, hostname).then(
+    (addresses) => {
+      const usable = addresses.filter((a) => !options.family || a.family === options.family);
+      const picked = usable.length ? usable : addresses;
+      if (options.all) callback(null, picked);
+      else callback(null, picked[0].address, picked[0].family);
+    },
+    (err) => callback(err, '')
+  );
+};
+
+/**
+ * Axios config for fetching untrusted URLs: guarded DNS lookup, at most
+ * MAX_REDIRECTS redirects, and every hop re-checked against `policy`.
+ * Call checkUrl on the first URL yourself.
+ */
+export function requestGuard(policy: UrlPolicy = {}) {
+  return {
+    maxRedirects: MAX_REDIRECTS,
+    lookup: guardedLookup,
+    beforeRedirect: (options: Record<string, any>) => {
+      checkUrl(options.href ?? `${options.protocol}//${options.hostname}${options.path ?? ''}`, policy);
+    },
+  };
+}
+
+/** Validate the `url_policy` request option; throws with a readable message. */
+export function parseUrlPolicy(raw: unknown): UrlPolicy | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw !== 'object' || Array.isArray(raw)) throw new Error('url_policy must be an object');
+
+  const { allow_domains, deny_domains, ...rest } = raw as Record<string, unknown>;
+  const unknown = Object.keys(rest);
+  if (unknown.length) throw new Error(`url_policy: unknown option ${unknown.join(', ')}`);
+
+  const domains = (name: string, value: unknown): string[] | undefined => {
+    if (value === undefined) return undefined;
+    if (!Array.isArray(value) || value.length > MAX_DOMAINS) {
+      throw new Error(`url_policy.${name} must be a list of up to ${MAX_DOMAINS} domains`);
+    }
+    return value.map((d) => {
+      const domain = typeof d === 'string' ? d.trim().toLowerCase().replace(/^\*?\./, '').replace(/\.$/, '') : '';
+      if (!/^[a-z0-9-]+(\.[a-z0-9-]+)*$/.test(domain)) throw new Error(`url_policy.${name}: invalid domain ${d}`);
+      return domain;
+    });
+  };
+
+  const out: UrlPolicy = {};
+  const allow = domains('allow_domains', allow_domains);
+  const deny = domains('deny_domains', deny_domains);
+  if (allow) out.allow_domains = allow;
+  if (deny) out.deny_domains = deny;
+  return out;
+}
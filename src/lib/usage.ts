@@ -0,0 +1,169 @@
+import { getObject, getObjectVersioned, putObjectIf } from './s3';
+import { CrawlError } from './errors';
+import { getTenant, Tenant, tenantLimits } from './tenants';
+import { resolveLimits } from './limits';
+import { CrawlRequest } from './types';
+
+/* -----------------------------------------------------------
+   Usage counters, quotas and rate limits (per tenant)
+   -----------------------------------------------------------
+   Monthly usage:  tenants/<id>/usage/<YYYY-MM>.json
+   Rate windows:   rate-limits/<id>/<YYYY-MM-DDTHH:MM>.json
+                   (one per minute, expired by a lifecycle rule)
+   Both have concurrent writers, so they are updated with
+   ETag-conditional puts. Crawls are counted when a job is
+   accepted, pages and AI images when it completes; a job's
+   budget is clamped to what is left when it starts, so
+   concurrent jobs overshoot by at most their own budget.
+----------------------------------------------------------- */
+
+export type UsageCounter = 'crawls' | 'pages' | 'ai_images';
+
+export interface MonthlyUsage extends Record<UsageCounter, number> {
+  /** YYYY-MM (UTC) */
+  month: string;
+  updated_at?: string;
+}
+
+/** Conditional-put attempts before giving up on a contended counter */
+const UPDATE_ATTEMPTS = 20;
+
+const MONTH_RE = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+export const monthOf = (date = new Date()) => date.toISOString().slice(0, 7);
+export const isValidMonth = (month: string) => MONTH_RE.test(month);
+
+const usageKey = (tenantId: string, month: string) => `tenants/${tenantId}/usage/${month}.json`;
+const rateKey = (tenantId: string, window: string) => `rate-limits/${tenantId}/${window}.json`;
+
+const emptyUsage = (month: string): MonthlyUsage => ({ month, crawls: 0, pages: 0, ai_images: 0 });
+
+/** Seconds until the next calendar month (UTC) – when monthly quotas reset */
+function secondsToNextMonth(now = new Date()): number {
+  const next = Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1);
+  return Math.ceil((next - now.getTime()) / 1000);
+}
+
+/**
+ * Read-modify-write a JSON counter. `update` returns the next value, or
+ * throws to abort without writing.
+ */
+async function updateCounter<T>(key: string, initial: T, update: (current: T) => T): Promise<T> {
+  for (let i = 0; i < UPDATE_ATTEMPTS; i++) {
+    const current = await getObjectVersioned<T>(key);
+    const next = update(current?.data ?? initial);
+    const written = current
+      ? await putObjectIf(key, next, { ifMatch: current.etag })
+      : await putObjectIf(key, next, { ifNoneMatch: '*' });
+    if (written) return next;
+    await new Promise((resolve) => setTimeout(resolve, 50 + Math.random() * 200));
+  }
+  throw new Error(`${key}: too much contention`);
+}
+
+/** A tenant's usage in `month` (zeros if nothing was recorded). */
+export async function getUsage(tenantId: string, month = monthOf()): Promise<MonthlyUsage> {
+  return (await getObject<MonthlyUsage>(usageKey(tenantId, month))) ?? emptyUsage(month);
+}
+
+/** What is left of each monthly quota (never negative). */
+export function remainingQuota(tenant: Tenant, usage: MonthlyUsage): Record<UsageCounter, number> {
+  const limits = tenantLimits(tenant);
+  return {
+    crawls: Math.max(0, limits.monthly_crawls - usage.crawls),
+    pages: Math.max(0, limits.monthly_pages - usage.pages),
+    ai_images: Math.max(0, limits.monthly_ai_images - usage.ai_images),
+  };
+}
+
+const quotaExceeded = (what: string) =>
+  new CrawlError('QUOTA_EXCEEDED', `monthly ${what} quota exhausted`, { retryAfter: secondsToNextMonth() });
+
+/** Throw QUOTA_EXCEEDED if `needed` more of a counter does not fit. */
+export function assertQuota(tenant: Tenant, usage: MonthlyUsage, needed: Partial<Record<UsageCounter, number>>) {
+  const left = remainingQuota(tenant, usage);
+  for (const [counter, n] of Object.entries(needed) as [UsageCounter, number][]) {
+    if (n > left[counter]) throw quotaExceeded(counter.replace('_', ' '));
+  }
+}
+
+/**
+ * Count `crawls` new jobs against this month's quota, or throw
+ * QUOTA_EXCEEDED (also when pages or AI images are used up – such jobs
+ * could not do anything).
+ */
+export async function reserveCrawls(tenant: Tenant, crawls: number): Promise<MonthlyUsage> {
+  const month = monthOf();
+  return updateCounter(usageKey(tenant.tenant_id, month), emptyUsage(month), (usage) => {
+    assertQuota(tenant, usage, { crawls, pages: 1, ai_images: 1 });
+    return { ...usage, crawls: usage.crawls + crawls, updated_at: new Date().toISOString() };
+  });
+}
+
+/**
+ * Give back crawls reserved for jobs that were never started. Never
+ * throws – a failed refund is logged, the caller's own error matters more.
+ */
+export async function releaseCrawls(tenantId: string, crawls: number): Promise<void> {
+  if (crawls <= 0) return;
+  const month = monthOf();
+  try {
+    await updateCounter(usageKey(tenantId, month), emptyUsage(month), (usage) => ({
+      ...usage,
+      crawls: Math.max(0, usage.crawls - crawls),
+      updated_at: new Date().toISOString(),
+    }));
+  } catch (err) {
+    console.error('Usage: failed to release crawls', tenantId, crawls, err);
+  }
+}
+
+/** Add what a finished job used. */
+export async function recordUsage(tenantId: string, used: Partial<Record<UsageCounter, number>>): Promise<MonthlyUsage> {
+  const month = monthOf();
+  return updateCounter(usageKey(tenantId, month), emptyUsage(month), (usage) => ({
+    ...usage,
+    crawls: usage.crawls + (used.crawls ?? 0),
+    pages: usage.pages + (used.pages ?? 0),
+    ai_images: usage.ai_images + (used.ai_images ?? 0),
+    updated_at: new Date().toISOString(),
+  }));
+}
+
+/**
+ * The request with `max_pages` / `max_ai_images` cut to what is left of
+ * its tenant's quota; throws QUOTA_EXCEEDED if nothing is. Requests
+ * without a tenant are returned as they are.
+ */
+export async function applyQuota(request: CrawlRequest): Promise<CrawlRequest> {
+  if (!request.tenant_id) return request;
+  const tenant = await getTenant(request.tenant_id);
+  if (!tenant) throw new CrawlError('UNAUTHORIZED', `tenant ${request.tenant_id} not found`);
+
+  const usage = await getUsage(tenant.tenant_id);
+  assertQuota(tenant, usage, { pages: 1, ai_images: 1 });
+  const left = remainingQuota(tenant, usage);
+  const limits = resolveLimits(request);
+  return {
+    ...request,
+    max_pages: Math.min(limits.max_pages, left.pages),
+    max_ai_images: Math.min(limits.max_ai_images, left.ai_images),
+  };
+}
+
+/**
+ * Count one job-creating request in the current minute, or throw
+ * RATE_LIMITED with the seconds left in it.
+ */
+export async function checkRateLimit(tenant: Tenant, now = new Date()): Promise<void> {
+  const limit = tenantLimits(tenant).rate_per_minute;
+  const window = now.toISOString().slice(0, 16);
+  await updateCounter(rateKey(tenant.tenant_id, window), { count: 0 }, ({ count }) => {
+    if (count >= limit) {
+      throw new CrawlError('RATE_LIMITED', `rate limit of ${limit} requests per minute reached`, {
+        retryAfter: 60 - now.getUTCSeconds(),
+      });
+    }
+    return { count: count + 1 };
+  });
+}
@@ -0,0 +1,196 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { getObject, getObjectVersioned, putObject, putObjectIf } from './s3';
+import { recordPrefix, tenantWebhookSecret } from './tenants';
+import { checkUrl, isUrlBlocked, requestGuard } from './url-policy';
+import { WebhookAttempt, WebhookDelivery, WebhookEvent } from './types';
+
+/* -----------------------------------------------------------
+   Webhooks: typed, signed and logged
+   -----------------------------------------------------------
+   Every POST carries X-Webhook-Event, X-Webhook-Id,
+   X-Webhook-Timestamp and X-Webhook-Signature:
+     v1=<hex HMAC-SHA256(secret, "<timestamp>.<raw body>")>
+   Receivers recompute it and reject old timestamps (see
+   verifyWebhookSignature). The secret is the tenant's own
+   (tenants.ts), WEBHOOK_SECRET for jobs without a tenant. Each
+   delivery's outcome is appended to a log next to the job and
+   its body stored beside it (webhooks/<delivery_id>.json), so a
+   missed one can be inspected and redelivered.
+----------------------------------------------------------- */
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+
+/** Receivers should reject signatures older than this */
+export const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/** Deliveries kept per log (oldest dropped first) */
+const MAX_LOGGED_DELIVERIES = 100;
+/** Conditional-put attempts before giving up on a contended log */
+const UPDATE_ATTEMPTS = 10;
+
+export const jobWebhookLogKey = (jobId: string, tenantId?: string) =>
+  `${recordPrefix(tenantId)}jobs/${jobId}/webhooks.json`;
+export const batchWebhookLogKey = (batchId: string, tenantId?: string) =>
+  `${recordPrefix(tenantId)}batches/${batchId}/webhooks.json`;
+/** Body of one logged delivery: `jobs/<id>/webhooks.json` → `jobs/<id>/webhooks/<delivery_id>.json` */
+const payloadKey = (logKey: string, deliveryId: string) => logKey.replace(/\.json$/, `/${deliveryId}.json`);
+
+const newDeliveryId = () => `whd_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+
+/** Secret for jobs without a tenant; unset = their deliveries go out unsigned (logged as a warning). */
+export const webhookSecret = () => process.env.WEBHOOK_SECRET || undefined;
+
+/** `v1=<hex>` signature of a raw body sent at `timestamp` (unix seconds). */
+export function signWebhook(secret: string, timestamp: number, body: string): string {
+  return `v1=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Receiver side: is `signature` valid for `body` and recent enough?
+ * Compares in constant time.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  { timestamp, signature }: { timestamp: string | number; signature: string },
+  body: string,
+  { toleranceSeconds = SIGNATURE_TOLERANCE_SECONDS, now = Date.now() } = {}
+): boolean {
+  const ts = Number(timestamp);
+  if (!Number.isInteger(ts) || Math.abs(now / 1000 - ts) > toleranceSeconds) return false;
+  const expected = Buffer.from(signWebhook(secret, ts, body));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+}
+
+export interface SendWebhookOptions {
+  /** Attempts in this run, with exponential backoff between them */
+  retries?: number;
+  /** First backoff; doubles per attempt */
+  backoffMs?: number;
+  /** Append the delivery to this log (see jobWebhookLogKey) */
+  logKey?: string;
+  /** Sign with this tenant's secret (WEBHOOK_SECRET if it has none) */
+  tenantId?: string;
+  /** Set when resending an earlier delivery */
+  redeliveryOf?: string;
+}
+
+/**
+ * POST `{ event, ...data }` to the caller's webhook, signed, retrying with
+ * exponential backoff. Never throws – the outcome is returned and, with
+ * `logKey`, persisted along with the body.
+ */
+export async function sendWebhook(
+  webhookUrl: string,
+  event: WebhookEvent,
+  data: Record<string, unknown>,
+  { retries = 3, backoffMs = 1000, logKey, tenantId, redeliveryOf }: SendWebhookOptions = {}
+): Promise<WebhookDelivery> {
+  const deliveryId = newDeliveryId();
+  const payload = { event, ...data };
+  const body = JSON.stringify(payload);
+  let secret: string | undefined;
+  try {
+    secret = (await tenantWebhookSecret(tenantId)) ?? webhookSecret();
+  } catch (err: any) {
+    console.error('Webhook: could not load the signing secret of tenant', tenantId, err.message);
+  }
+  if (!secret) console.warn('Webhook: no signing secret – sending unsigned', event);
+
+  const attempts: WebhookAttempt[] = [];
+  for (let i = 0; i < retries; i++) {
+    const started = Date.now();
+    const timestamp = Math.floor(started / 1000);
+    try {
+      checkUrl(webhookUrl);
+      const res = await axios.post(webhookUrl, body, {
+        ...requestGuard(),
+        timeout: 10000,
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'ImageCrawler-Webhook/1.0',
+          'X-Webhook-Event': event,
+          'X-Webhook-Id': deliveryId,
+          [TIMESTAMP_HEADER]: String(timestamp),
+          ...(secret ? { [SIGNATURE_HEADER]: signWebhook(secret, timestamp, body) } : {}),
+        },
+      });
+      attempts.push({ at: new Date(started).toISOString(), status_code: res.status, duration_ms: Date.now() - started });
+      console.log('Webhook sent successfully to:', webhookUrl, event);
+      break;
+    } catch (error: any) {
+      attempts.push({
+        at: new Date(started).toISOString(),
+        ...(error.response ? { status_code: error.response.status } : {}),
+        error: error.message,
+        duration_ms: Date.now() - started,
+      });
+      console.error(`Webhook attempt ${i + 1} failed:`, event, error.message);
+      // a private or malformed URL will not get better
+      if (i === retries - 1 || isUrlBlocked(error)) {
+        console.error('All webhook attempts failed for:', webhookUrl);
+        break;
+      }
+      // Wait before retry (exponential backoff)
+      await new Promise((resolve) => setTimeout(resolve, Math.pow(2, i) * backoffMs));
+    }
+  }
+
+  const last = attempts[attempts.length - 1];
+  const delivery: WebhookDelivery = {
+    delivery_id: deliveryId,
+    event,
+    url: webhookUrl,
+    status: last && !last.error ? 'delivered' : 'failed',
+    attempts,
+    created_at: attempts[0]?.at ?? new Date().toISOString(),
+    ...(redeliveryOf ? { redelivery_of: redeliveryOf } : {}),
+  };
+  if (logKey) {
+    try {
+      // body first, so every logged delivery can be resent
+      await putObject(payloadKey(logKey, deliveryId), payload);
+      await appendDelivery(logKey, delivery);
+    } catch (err) {
+      console.error('Webhook: failed to log delivery', deliveryId, err);
+    }
+  }
+  return delivery;
+}
+
+/** Add a delivery to a log. The worker and the redeliver endpoint both write. */
+async function appendDelivery(logKey: string, delivery: WebhookDelivery): Promise<void> {
+  for (let i = 0; i < UPDATE_ATTEMPTS; i++) {
+    const current = await getObjectVersioned<WebhookDelivery[]>(logKey);
+    const next = [...(current?.data ?? []), delivery].slice(-MAX_LOGGED_DELIVERIES);
+    const written = current
+      ? await putObjectIf(logKey, next, { ifMatch: current.etag })
+      : await putObjectIf(logKey, next, { ifNoneMatch: '*' });
+    if (written) return;
+    await new Promise((resolve) => setTimeout(resolve, 50 + Math.random() * 200));
+  }
+  throw new Error(`webhook log ${logKey}: too much contention`);
+}
+
+/** Deliveries of one log, oldest first; [] if nothing was sent yet. */
+export async function getDeliveries(logKey: string): Promise<WebhookDelivery[]> {
+  return (await getObject<WebhookDelivery[]>(logKey)) ?? [];
+}
+
+/**
+ * Send a logged delivery again: same URL, event and payload, fresh id and
+ * signature, one attempt. undefined if `deliveryId` is not in the log.
+ */
+export async function redeliverWebhook(
+  logKey: string,
+  deliveryId: string,
+  tenantId?: string
+): Promise<WebhookDelivery | undefined> {
+  const original = (await getDeliveries(logKey)).find((d) => d.delivery_id === deliveryId);
+  const payload = original && (await getObject<Record<string, unknown>>(payloadKey(logKey, deliveryId)));
+  if (!original || !payload) return undefined;
+  const { event: _event, ...data } = payload;
+  return sendWebhook(original.url, original.event, data, { retries: 1, logKey, tenantId, redeliveryOf: deliveryId });
+}
@@ -0,0 +1,170 @@
+import { getJob, jobView, updateJob } from './jobs';
+import { invokeAsync } from './lambda';
+import { runCrawl, STEP_NAMES } from './pipeline';
+import { jobWebhookLogKey, sendWebhook, SendWebhookOptions } from './webhook';
+import { finishBatchJob } from './batches';
+import { toCrawlError } from './errors';
+import { applyQuota, recordUsage } from './usage';
+import { ProgressEvent, WebhookEvent } from './types';
+
+/** Payload of the async invocation that runs the pipeline. */
+export interface WorkerEvent {
+  type: 'crawl.job';
+  job_id: string;
+  /** The job's tenant – its record lives under tenants/<id>/ */
+  tenant_id?: string;
+}
+
+export const isWorkerEvent = (event: any): event is WorkerEvent =>
+  event?.type === 'crawl.job' &&
+  typeof event.job_id === 'string' &&
+  (event.tenant_id === undefined || typeof event.tenant_id === 'string');
+
+/**
+ * Run one queued job to completion, keeping the job record and the
+ * caller's webhook up to date. Never throws – failures end up on the record.
+ */
+export async function runJob(jobId: string, tenantId?: string): Promise<void> {
+  const startTime = Date.now();
+  const job = await getJob(jobId, tenantId);
+  if (!job) {
+    console.error('Worker: job not found:', jobId);
+    return;
+  }
+  const { request } = job;
+  const webhookUrl = request.webhook_url;
+
+  console.log('Debug: Processing job:', jobId);
+  console.log('Debug: force_refresh parameter:', request.force_refresh);
+  console.log('Debug: webhook_url provided:', !!webhookUrl);
+
+  // signed with the tenant's secret, logged next to the job; failures never stop the job
+  const notify = async (event: WebhookEvent, data: Record<string, unknown>, options: SendWebhookOptions = {}) => {
+    if (webhookUrl) {
+      await sendWebhook(webhookUrl, event, data, { logKey: jobWebhookLogKey(jobId, tenantId), tenantId, ...options });
+    }
+  };
+
+  let currentStep: string | undefined;
+  // a retried invocation appends to the events of the earlier ones, so
+  // SSE ids (positions) keep increasing and Last-Event-ID stays valid
+  const attempt = (job.attempts ?? 0) + 1;
+  const progress: ProgressEvent[] = [...(job.progress ?? [])];
+  // progress webhooks go out in order without holding up the pipeline
+  let progressWebhooks: Promise<void> = Promise.resolve();
+  try {
+    const startedAt = new Date().toISOString();
+    await updateJob(jobId, { status: 'started', started_at: startedAt, attempts: attempt }, tenantId);
+
+    await notify('job.started', {
+      job_id: jobId,
+      status: 'started',
+      source_url: request.url,
+      started_at: startedAt,
+      message: 'Image crawling process has started'
+    });
+
+    // the budget is what is left of the tenant's monthly quota
+    const { images, pages, warnings, timings, usage } = await runCrawl(await applyQuota(request), {
+      onStep: async (step, name) => {
+        currentStep = name;
+        await updateJob(jobId, { status: `step_${step}`, step, step_name: name }, tenantId);
+      },
+      onProgress: async (event) => {
+        const stored = { ...event, attempt };
+        progress.push(stored);
+        await updateJob(jobId, { progress }, tenantId);
+        // one attempt – the next event follows shortly
+        progressWebhooks = progressWebhooks.then(() =>
+          notify(
+            'job.progress',
+            {
+              job_id: jobId,
+              status: `step_${event.step}`,
+              step: event.step,
+              step_name: STEP_NAMES[event.step],
+              source_url: request.url,
+              progress: stored,
+            },
+            { retries: 1 }
+          )
+        );
+      },
+    });
+
+    if (request.tenant_id) {
+      await recordUsage(request.tenant_id, usage).catch((err) =>
+        console.error('Worker: failed to record usage', request.tenant_id, err)
+      );
+    }
+
+    const done = await updateJob(
+      jobId,
+      {
+        status: 'completed',
+        completed_at: new Date().toISOString(),
+        processing_time_ms: Date.now() - startTime,
+        images,
+        pages,
+        warnings,
+        timings,
+      },
+      tenantId
+    );
+
+    await progressWebhooks;
+    await notify('job.completed', {
+      job_id: jobId,
+      status: 'completed',
+      source_url: request.url,
+      generated_at: done.completed_at,
+      processing_time_ms: done.processing_time_ms,
+      images,
+      pages,
+      warnings,
+    });
+    if (request.batch_id) await finishBatchJob(request.batch_id, jobId, 'completed', tenantId);
+  } catch (err: any) {
+    const error = toCrawlError(err, currentStep);
+    console.error('Lambda error:', error.code, err);
+
+    const failed = await updateJob(
+      jobId,
+      {
+        status: 'failed',
+        completed_at: new Date().toISOString(),
+        processing_time_ms: Date.now() - startTime,
+        error: error.message || 'unknown error',
+        error_code: error.code,
+        error_type: err.name ?? 'Error',
+        error_step: error.step,
+        details: err.raw ?? err.response?.data ?? err.stack ?? 'No additional details',
+      },
+      tenantId
+    );
+
+    await progressWebhooks;
+    await notify('job.failed', {
+      ...jobView(failed),
+      generated_at: failed.completed_at,
+    });
+    if (request.batch_id) await finishBatchJob(request.batch_id, jobId, 'failed', tenantId);
+  }
+}
+
+/**
+ * Hand a queued job to the worker function (WORKER_FUNCTION_NAME); run it
+ * inline when executed outside Lambda (local test scripts). Inside Lambda
+ * the API functions never run a crawl themselves.
+ */
+export async function dispatchJob(jobId: string, tenantId?: string): Promise<void> {
+  const functionName = process.env.WORKER_FUNCTION_NAME;
+  if (functionName) {
+    const event: WorkerEvent = { type: 'crawl.job', job_id: jobId, ...(tenantId ? { tenant_id: tenantId } : {}) };
+    await invokeAsync(functionName, event);
+  } else if (process.env.AWS_LAMBDA_FUNCTION_NAME) {
+    throw new Error('WORKER_FUNCTION_NAME is not set');
+  } else {
+    await runJob(jobId, tenantId);
+  }
+}
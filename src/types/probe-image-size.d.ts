@@ -5,6 +5,10 @@ declare module 'probe-image-size' {
     type: string;
     mime: string;
   }
-  function probe(input: string | Buffer): Promise<ProbeResult>;
+  function probe(input: string | NodeJS.ReadableStream): Promise<ProbeResult>;
+  namespace probe {
+    /** Parse dimensions from an in-memory buffer; null if unrecognised */
+    function sync(input: Buffer): ProbeResult | null;
+  }
   export = probe;
-} 
\ No newline at end of file
+}
@@ -2,6 +2,7 @@ const { handler } = require('./dist/handlers/index.js');
 
 (async () => {
   const event = {
+    headers: { 'x-api-key': process.env.API_KEY },
     body: JSON.stringify({ url: 'https://example.com' })
   };
   try {
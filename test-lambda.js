@@ -2,6 +2,7 @@ const { handler } = require('./src/handlers/index');
 
 (async () => {
   const event = {
+    headers: { 'x-api-key': process.env.API_KEY },
     body: JSON.stringify({ url: 'https://example.com' })
   };
   try {
@@ -2,6 +2,7 @@
   const { handler } = await import('./dist/handlers/index.js');
   
   const event = {
+    headers: { 'x-api-key': process.env.API_KEY },
     body: JSON.stringify({ url: 'https://example.com' })
   };
   try {
@@ -48,6 +48,7 @@ require = function(id) {
 
 // Test with a sample URL
 const testEvent = {
+  headers: { 'x-api-key': process.env.API_KEY },
   body: JSON.stringify({ 
     url: 'https://example.com' 
   })
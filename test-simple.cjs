@@ -3,6 +3,7 @@ const { handler } = require('./dist/handlers/index.js');
 
 // Test with a sample URL
 const testEvent = {
+  headers: { 'x-api-key': process.env.API_KEY },
   body: JSON.stringify({ 
     url: 'https://example.com' 
   })